@@ -0,0 +1,405 @@
+// Typed client for the Anagrama backend. Every request gets a timeout, idempotent
+// GETs retry with backoff, and failures surface as an ApiError with a `kind`
+// the UI can switch on instead of a silent `{}`.
+
+export type ApiResponse<T> = { status: number; data: T };
+
+export type ApiErrorKind =
+  | "network"       // DNS failure, connection refused/reset, offline
+  | "timeout"       // no response within the per-request timeout
+  | "auth-expired"  // 401/403 on an authenticated request
+  | "rate-limited"  // 429
+  | "server"        // 5xx
+  | "malformed";    // response body isn't the JSON we expected
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly path: string;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ApiErrorKind, path: string, message: string, opts: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.path = path;
+    this.status = opts.status;
+    this.retryAfterMs = opts.retryAfterMs;
+  }
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof ApiError;
+}
+
+// ── Endpoint payloads ───────────────────────────────────────────────────────
+
+export type ApiUser = {
+  userId?: string;
+  username?: string | null;
+  displayName?: string | null;
+};
+
+export type AuthStartResponse = {
+  device_code?: string;
+  user_code?: string;
+  verification_url?: string;
+  expires_in?: number;
+  interval?: number;
+  error?: string;
+};
+
+export type AuthPollResponse = {
+  status?: string;
+  token?: string;
+  user?: ApiUser;
+  error?: string;
+};
+
+export type MeResponse = {
+  user?: ApiUser;
+  error?: string;
+};
+
+export type PuzzleGuess = { word: string; marks: string[]; isTarget?: boolean; isAlt?: boolean };
+
+export type PuzzleResponse = {
+  id?: string;
+  dateKey?: string;
+  length?: number;
+  scramble?: string;
+  letters?: string;
+  poolScramble?: string;
+  maxAttempts?: number;
+  session?: {
+    attempts?: number;
+    done?: boolean;
+    win?: boolean;
+    hintsUsed?: number;
+    guesses?: PuzzleGuess[];
+  };
+  error?: string;
+};
+
+export type GuessResponse = {
+  validWord?: boolean;
+  accepted?: boolean;
+  valid?: boolean;
+  isTarget?: boolean;
+  isAltAnagram?: boolean;
+  marks?: string[];
+  attempts?: number;
+  done?: boolean;
+  message?: string;
+};
+
+export type HintResponse = {
+  hint?: string;
+  position?: number;
+  letter?: string;
+  message?: string;
+  error?: string;
+};
+
+export type DefineagramSession = {
+  completed?: boolean;
+  revealed?: boolean;
+  attempts?: number;
+  timeMs?: number;
+  wrongGuesses?: number;
+  penaltyMs?: number;
+  totalTimeMs?: number;
+  startedAt?: string;
+  hintsUsed?: number;
+  usedHints?: string[];
+  inProgressWrongGuesses?: number;
+  inProgressPenaltyMs?: number;
+  pausedMs?: number; // time the clock was stopped with /pause, over finished pauses
+  pausedAt?: string; // set while paused
+  word?: string;
+};
+
+export type DefineagramDailyResponse = {
+  id?: string;
+  dateKey?: string;
+  letters?: string;
+  definition?: string;
+  wordLength?: number;
+  difficulty?: string;
+  extraLetters?: number;
+  phonetic?: string;
+  partOfSpeech?: string;
+  hintsAvailable?: number;
+  session?: DefineagramSession;
+  error?: string;
+};
+
+export type DefineagramHintResponse = {
+  hint?: string;
+  hintsRemaining?: number;
+  penaltyMs?: number;
+  error?: string;
+};
+
+export type DefineagramRevealResponse = {
+  word?: string;
+  definition?: string;
+  phonetic?: string;
+  partOfSpeech?: string;
+};
+
+export type DefineagramGuessResponse = {
+  correct?: boolean;
+  word?: string;
+  phonetic?: string;
+  partOfSpeech?: string;
+  message?: string;
+};
+
+export type DefineagramProgress = {
+  puzzleId: string;
+  difficulty: string;
+  wrongGuesses: number;
+  penaltyMs: number;
+  /** Left out, the server keeps the pause state it has. `pausedAt: null` ends a pause. */
+  pausedMs?: number;
+  pausedAt?: string | null;
+};
+
+export type DefineagramCompletion = {
+  puzzleId: string;
+  difficulty: string;
+  timeMs: number; // not counting paused time
+  wrongGuesses: number;
+  pausedMs?: number;
+};
+
+export type HistoryItem = {
+  game?: "anagrama" | "defineagram";
+  dateKey?: string;
+  won?: boolean;
+  // Anagrama
+  attempts?: number;
+  hintsUsed?: number;
+  guesses?: PuzzleGuess[];
+  /** Played from the archive, after its day. */
+  archive?: boolean;
+  // Defineagram
+  timeMs?: number;
+  penaltyMs?: number;
+  wrongGuesses?: number;
+  revealed?: boolean;
+};
+
+export type HistoryPage = {
+  items?: HistoryItem[];
+  /** Opaque cursor for the next (older) page; absent on the last page. */
+  nextCursor?: string | null;
+  error?: string;
+};
+
+// ── Client ──────────────────────────────────────────────────────────────────
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+const RETRY_MAX_DELAY_MS = 4_000;
+
+type RequestOptions = {
+  timeoutMs?: number;
+  retries?: number;
+};
+
+export type ClientOptions = {
+  timeoutMs?: number;
+  /** Called whenever an authenticated request comes back 401/403, before the error is thrown. */
+  onAuthExpired?: (err: ApiError) => void;
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const secs = Number(header);
+  if (!isNaN(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(header);
+  return isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+/** Only transient failures are worth retrying; auth and body errors won't fix themselves. */
+function isRetryable(err: ApiError): boolean {
+  return err.kind === "network" || err.kind === "timeout" || err.kind === "server" || err.kind === "rate-limited";
+}
+
+export class AnagramaClient {
+  readonly apiUrl: string;
+  private token?: string;
+  private timeoutMs: number;
+  private onAuthExpired?: (err: ApiError) => void;
+
+  constructor(apiUrl: string, token?: string, opts: ClientOptions = {}) {
+    this.apiUrl = apiUrl.replace(/\/$/, "");
+    this.token = token;
+    this.timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.onAuthExpired = opts.onAuthExpired;
+  }
+
+  /** Swap in a fresh bearer token (e.g. after re-running the device login). */
+  setToken(token: string | undefined): void {
+    this.token = token;
+  }
+
+  /**
+   * Perform one request. Resolves with the parsed body for 2xx and ordinary 4xx
+   * responses (callers still inspect `status`/`error` for game-level failures),
+   * throws ApiError for everything the caller can't meaningfully handle inline.
+   */
+  private async send<T>(method: "GET" | "POST", pathUrl: string, body: unknown, opts: RequestOptions): Promise<ApiResponse<T>> {
+    const controller = new AbortController();
+    const timeoutMs = opts.timeoutMs ?? this.timeoutMs;
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let res: Response;
+    let text: string;
+    try {
+      res = await fetch(`${this.apiUrl}${pathUrl}`, {
+        method,
+        headers: {
+          ...(method === "POST" ? { "content-type": "application/json" } : {}),
+          ...(this.token ? { authorization: `Bearer ${this.token}` } : {}),
+        },
+        body: method === "POST" ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+      text = await res.text();
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new ApiError("timeout", pathUrl, `Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+      }
+      const reason = err instanceof Error && err.cause instanceof Error ? err.cause.message : String(err);
+      throw new ApiError("network", pathUrl, `Network error: ${reason}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const status = res.status;
+    if ((status === 401 || status === 403) && this.token) {
+      const err = new ApiError("auth-expired", pathUrl, "Session expired or revoked", { status });
+      this.onAuthExpired?.(err);
+      throw err;
+    }
+    if (status === 429) {
+      throw new ApiError("rate-limited", pathUrl, "Too many requests", {
+        status,
+        retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
+      });
+    }
+    if (status >= 500) {
+      throw new ApiError("server", pathUrl, `Server error (${status})`, { status });
+    }
+
+    if (!text.trim()) return { status, data: {} as T };
+    try {
+      const data = JSON.parse(text) as unknown;
+      if (data === null || typeof data !== "object") {
+        throw new Error("not an object");
+      }
+      return { status, data: data as T };
+    } catch {
+      throw new ApiError("malformed", pathUrl, `Unexpected response from server (${status})`, { status });
+    }
+  }
+
+  /** GET with bounded exponential backoff. Honors Retry-After on 429. */
+  async get<T>(pathUrl: string, opts: RequestOptions = {}): Promise<ApiResponse<T>> {
+    const retries = opts.retries ?? DEFAULT_GET_RETRIES;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>("GET", pathUrl, undefined, opts);
+      } catch (err) {
+        if (!isApiError(err) || !isRetryable(err) || attempt >= retries) throw err;
+        const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+        await sleep(err.retryAfterMs !== undefined ? Math.min(err.retryAfterMs, RETRY_MAX_DELAY_MS) : backoff);
+      }
+    }
+  }
+
+  /** POSTs are never retried — a guess or hint must not be submitted twice. */
+  post<T>(pathUrl: string, body: unknown, opts: RequestOptions = {}): Promise<ApiResponse<T>> {
+    return this.send<T>("POST", pathUrl, body, opts);
+  }
+
+  // ── Device login ──────────────────────────────────────────────────────────
+
+  authStart(label: string): Promise<ApiResponse<AuthStartResponse>> {
+    return this.post("/cli/auth/start", { label, clientName: "anagrama-cli" });
+  }
+
+  authPoll(deviceCode: string): Promise<ApiResponse<AuthPollResponse>> {
+    return this.post("/cli/auth/poll", { device_code: deviceCode });
+  }
+
+  /** The account the current token belongs to. A 401/403 means the token is invalid. */
+  getMe(): Promise<ApiResponse<MeResponse>> {
+    return this.get("/cli/auth/me");
+  }
+
+  // ── History ───────────────────────────────────────────────────────────────
+
+  /** One page of the signed-in player's finished games, newest first. */
+  getHistory(opts: { cursor?: string; since?: string; limit?: number } = {}): Promise<ApiResponse<HistoryPage>> {
+    const params = new URLSearchParams({ limit: String(opts.limit ?? 100) });
+    if (opts.cursor) params.set("cursor", opts.cursor);
+    if (opts.since) params.set("since", opts.since);
+    return this.get(`/cli/history?${params}`);
+  }
+
+  // ── Anagrama ──────────────────────────────────────────────────────────────
+
+  // Pass a past `date` (YYYY-MM-DD) to play that day's puzzle from the archive;
+  // without it the server uses today's.
+
+  getPuzzle(date?: string): Promise<ApiResponse<PuzzleResponse>> {
+    return this.get(date ? `/anagrama/api/puzzle?date=${encodeURIComponent(date)}` : "/anagrama/api/puzzle");
+  }
+
+  submitGuess(guess: string, date?: string): Promise<ApiResponse<GuessResponse>> {
+    return this.post("/anagrama/api/guess", date ? { guess, date } : { guess });
+  }
+
+  getHint(date?: string): Promise<ApiResponse<HintResponse>> {
+    return this.post("/anagrama/api/hint", date ? { date } : {});
+  }
+
+  // ── Defineagram ───────────────────────────────────────────────────────────
+
+  getDefineagramDaily(): Promise<ApiResponse<DefineagramDailyResponse>> {
+    return this.get("/api/definagram/daily");
+  }
+
+  startDefineagram(puzzleId: string, difficulty: string): Promise<ApiResponse<unknown>> {
+    return this.post("/api/definagram/daily/start", { puzzleId, difficulty });
+  }
+
+  saveDefineagramProgress(progress: DefineagramProgress): Promise<ApiResponse<unknown>> {
+    return this.post("/api/definagram/daily/progress", progress);
+  }
+
+  completeDefineagram(completion: DefineagramCompletion): Promise<ApiResponse<unknown>> {
+    return this.post("/api/definagram/daily", completion);
+  }
+
+  getDefineagramHint(puzzleId: string, difficulty: string, hintsUsed: number): Promise<ApiResponse<DefineagramHintResponse>> {
+    return this.post("/api/definagram/hint", { puzzleId, difficulty, hintsUsed });
+  }
+
+  revealDefineagram(puzzleId: string, difficulty: string): Promise<ApiResponse<DefineagramRevealResponse>> {
+    return this.get(`/api/definagram/reveal?puzzleId=${encodeURIComponent(puzzleId)}&difficulty=${encodeURIComponent(difficulty)}`);
+  }
+
+  submitDefineagramGuess(guess: string, puzzleId: string, difficulty: string): Promise<ApiResponse<DefineagramGuessResponse>> {
+    return this.post("/api/definagram/guess", { guess, puzzleId, difficulty });
+  }
+}
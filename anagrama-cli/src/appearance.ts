@@ -0,0 +1,122 @@
+// Whether the screen is dark or light, for the "auto" theme. The terminal's
+// own background (asked with OSC 11) is the best answer when the terminal
+// replies; after that, the desktop's setting (macOS, Windows, or the
+// freedesktop portal on Linux). COLORFGBG comes last: it's fixed when the
+// terminal starts, so it can't follow a switch made since.
+//
+// The terminal's reply comes in on stdin, so it's only asked for when the
+// caller is about to read the keyboard itself (menus and games), and the
+// reply is read to its end before anything else gets stdin. One-shot and
+// --json commands skip straight to the desktop setting.
+
+import { execFile } from "child_process";
+
+export type Appearance = "dark" | "light";
+
+// Long enough for a reply over SSH; a terminal that misses it isn't asked again
+const REPLY_TIMEOUT_MS = 1000;
+
+let terminalSilent = false;
+
+export async function detectSystemTheme(opts: { askTerminal?: boolean } = {}): Promise<Appearance> {
+  return (
+    (opts.askTerminal ? await queryTerminalBackground() : null) ||
+    (await querySystemSetting()) ||
+    fromColorFgBg(process.env.COLORFGBG) ||
+    "dark" // Default assumption
+  );
+}
+
+/**
+ * Ask the terminal for its background color (OSC 11). A device attributes
+ * query goes right after it: every terminal answers that one, and after the
+ * color if there is one, so its reply marks the end of what the terminal
+ * sends back. Nothing is left on stdin for the next prompt to read as keys.
+ */
+async function queryTerminalBackground(): Promise<Appearance | null> {
+  const { stdin, stdout } = process;
+  if (!stdin.isTTY || !stdout.isTTY || process.env.TERM === "dumb" || terminalSilent) return null;
+
+  const wasRaw = stdin.isRaw;
+  return new Promise((resolve) => {
+    let reply = "";
+    const done = (result: Appearance | null) => {
+      clearTimeout(timer);
+      stdin.removeListener("data", onData);
+      stdin.setRawMode(wasRaw);
+      stdin.pause();
+      resolve(result);
+    };
+    const onData = (chunk: Buffer | string) => {
+      reply += chunk.toString();
+      if (!/\x1b\[\?[0-9;]*c/.test(reply)) return;
+      const color = /\x1b\]11;rgb:([0-9a-f]+)\/([0-9a-f]+)\/([0-9a-f]+)/i.exec(reply);
+      done(color ? (luminance(color.slice(1, 4)) > 0.5 ? "light" : "dark") : null);
+    };
+    const timer = setTimeout(() => {
+      terminalSilent = true;
+      done(null);
+    }, REPLY_TIMEOUT_MS);
+
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("data", onData);
+    stdout.write("\x1b]11;?\x1b\\\x1b[c");
+  });
+}
+
+/** Relative luminance of an X11 "rgb:" color, whose channels have 1 to 4 hex digits each. */
+function luminance(channels: string[]): number {
+  const [r, g, b] = channels.map((c) => parseInt(c, 16) / (16 ** c.length - 1));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function run(cmd: string, args: string[], options: { shell?: boolean } = {}): Promise<{ ok: boolean; stdout: string }> {
+  return new Promise((resolve) => {
+    execFile(cmd, args, { ...options, timeout: 1000 }, (err, stdout) => {
+      resolve({ ok: !err, stdout: stdout?.toString() || "" });
+    });
+  });
+}
+
+async function querySystemSetting(): Promise<Appearance | null> {
+  // macOS: no AppleInterfaceStyle means light mode
+  if (process.platform === "darwin") {
+    const { stdout } = await run("defaults", ["read", "-g", "AppleInterfaceStyle"]);
+    return stdout.trim().toLowerCase() === "dark" ? "dark" : "light";
+  }
+
+  // Windows: AppsUseLightTheme = 0 means dark
+  if (process.platform === "win32") {
+    const { ok, stdout } = await run("reg", [
+      "query",
+      "HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Themes\\Personalize",
+      "/v", "AppsUseLightTheme",
+    ], { shell: true });
+    if (!ok || !stdout) return null;
+    return stdout.includes("0x0") ? "dark" : "light";
+  }
+
+  // Linux and other desktops: the freedesktop portal's color-scheme
+  // (0 = no preference, 1 = prefer dark, 2 = prefer light)
+  const { ok, stdout } = await run("gdbus", [
+    "call", "--session",
+    "--dest", "org.freedesktop.portal.Desktop",
+    "--object-path", "/org/freedesktop/portal/desktop",
+    "--method", "org.freedesktop.portal.Settings.Read",
+    "org.freedesktop.appearance", "color-scheme",
+  ]);
+  const scheme = ok ? /uint32 (\d)/.exec(stdout)?.[1] : undefined;
+  if (scheme === "1") return "dark";
+  if (scheme === "2") return "light";
+  return null;
+}
+
+/** COLORFGBG ("15;0") is set by many terminals (iTerm2, xterm, etc.); the last number is the background. */
+function fromColorFgBg(value: string | undefined): Appearance | null {
+  if (!value) return null;
+  const parts = value.split(";");
+  const bg = parseInt(parts[parts.length - 1], 10);
+  if (isNaN(bg)) return null;
+  return bg > 8 ? "light" : "dark";
+}
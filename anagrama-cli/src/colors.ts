@@ -0,0 +1,104 @@
+// What the terminal can show, and colors picked to match. FORCE_COLOR wins,
+// then NO_COLOR (https://no-color.org), then what the terminal says about
+// itself. Hex colors are used as-is on truecolor terminals; on 256-color ones
+// chalk maps them to the nearest palette entry. 16-color terminals get each
+// theme's own picks, since the automatic mapping there is often unreadable.
+// With no color at all, tiles and marks fall back to bold, inverse and
+// underline, which NO_COLOR still allows on a real terminal.
+
+import chalk, { Chalk, type BackgroundColorName, type ChalkInstance, type ForegroundColorName } from "chalk";
+
+export type ColorLevel = "truecolor" | "256" | "16" | "none";
+
+export type TerminalColors = {
+  level: ColorLevel;
+  /** Bold, inverse and underline work (a terminal, just without color). */
+  styles: boolean;
+};
+
+const CHALK_LEVELS: Record<ColorLevel, 0 | 1 | 2 | 3> = { none: 0, "16": 1, "256": 2, truecolor: 3 };
+
+export function detectTerminalColors(
+  env: NodeJS.ProcessEnv = process.env,
+  stream: { isTTY?: boolean } = process.stdout,
+): TerminalColors {
+  const term = env.TERM || "";
+  const styles = !!stream.isTTY && term !== "dumb";
+
+  const force = env.FORCE_COLOR;
+  if (force !== undefined) {
+    if (force === "0" || force === "false") return { level: "none", styles };
+    if (force === "2") return { level: "256", styles: true };
+    if (force === "3") return { level: "truecolor", styles: true };
+    return { level: "16", styles: true }; // "", "1", "true"
+  }
+  if (env.NO_COLOR) return { level: "none", styles };
+  if (!styles) return { level: "none", styles: false };
+
+  if (env.COLORTERM === "truecolor" || env.COLORTERM === "24bit") return { level: "truecolor", styles };
+  if (["iTerm.app", "WezTerm", "vscode", "ghostty"].includes(env.TERM_PROGRAM || "")) return { level: "truecolor", styles };
+  if (process.platform === "win32" || env.WT_SESSION) return { level: "truecolor", styles };
+  if (/-256(color)?$/i.test(term)) return { level: "256", styles };
+  if (/^(xterm|screen|tmux|vt100|vt220|rxvt|linux|cygwin|ansi)|color/i.test(term)) return { level: "16", styles };
+  return { level: "none", styles };
+}
+
+let level: ColorLevel = "none";
+
+/** Styles without color, for the monochrome path. Off unless the terminal takes them. */
+export const mono: ChalkInstance = new Chalk({ level: 0 });
+
+export function colorLevel(): ColorLevel {
+  return level;
+}
+
+/** Draw at `next` from now on. Without `styles`, output is plain text. */
+export function applyColorLevel(next: ColorLevel, styles: boolean): void {
+  level = next;
+  chalk.level = CHALK_LEVELS[next];
+  mono.level = styles ? 1 : 0;
+}
+
+/** A text color: the hex value, or `basic` on 16-color terminals. `plain` stands in when there's no color. */
+export function color(hex: string, basic: ForegroundColorName, plain: ChalkInstance = mono): ChalkInstance {
+  if (level === "none") return plain;
+  return level === "16" ? chalk[basic] : chalk.hex(hex);
+}
+
+/** A background color, picked the same way as `color`. */
+export function bgColor(hex: string, basic: BackgroundColorName, plain: ChalkInstance = mono): ChalkInstance {
+  if (level === "none") return plain;
+  return level === "16" ? chalk[basic] : chalk.bgHex(hex);
+}
+
+// xterm's default 16-color palette, for picking the closest one to a hex color
+const BASIC_RGB: [ForegroundColorName, number][] = [
+  ["black", 0x000000],
+  ["red", 0xcd0000],
+  ["green", 0x00cd00],
+  ["yellow", 0xcdcd00],
+  ["blue", 0x0000ee],
+  ["magenta", 0xcd00cd],
+  ["cyan", 0x00cdcd],
+  ["white", 0xe5e5e5],
+  ["gray", 0x7f7f7f],
+  ["redBright", 0xff0000],
+  ["greenBright", 0x00ff00],
+  ["yellowBright", 0xffff00],
+  ["blueBright", 0x5c5cff],
+  ["magentaBright", 0xff00ff],
+  ["cyanBright", 0x00ffff],
+  ["whiteBright", 0xffffff],
+];
+
+/** The 16-color name closest to `hex`, for themes that don't pick their own. */
+export function nearestBasicColor(hex: string): ForegroundColorName {
+  const value = parseInt(hex.slice(1), 16);
+  const distance = (other: number) =>
+    [16, 8, 0].reduce((sum, shift) => sum + (((value >> shift) & 0xff) - ((other >> shift) & 0xff)) ** 2, 0);
+  let best = BASIC_RGB[0];
+  for (const entry of BASIC_RGB) {
+    if (distance(entry[1]) < distance(best[1])) best = entry;
+  }
+  return best[0];
+}
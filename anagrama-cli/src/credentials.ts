@@ -0,0 +1,322 @@
+// Pluggable credential storage. The per-profile credentials file is always the
+// source of truth for *where* the token lives:
+//   { iv, data }                              → "file": AES with a machine-derived key (original format)
+//   { backend: "passphrase", salt, iv, ... }  → "passphrase": AES-GCM with a scrypt key from the user's passphrase
+//   { backend: "keyring" }                    → "keyring": OS secret store, file is only a pointer
+// so older installs keep working and `auth migrate` only has to rewrite one file.
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { spawn } from "child_process";
+
+export type CredentialBackend = "keyring" | "file" | "passphrase";
+
+export const CREDENTIAL_BACKENDS: CredentialBackend[] = ["keyring", "file", "passphrase"];
+
+export type CredentialContext = {
+  credPath: string;
+  /** Keyring account name — one entry per profile. */
+  account: string;
+  /** Supplies the passphrase for the passphrase backend (null = unavailable/cancelled). */
+  getPassphrase: () => Promise<string | null>;
+  /** The last passphrase didn't open the file: forget it. False when asking again won't help. */
+  rejectPassphrase: () => boolean;
+};
+
+/** A stored token, or why there isn't one. No error means nobody is logged in. */
+export type TokenRead = { token: string | null; error?: "wrong-passphrase" | "unreadable" };
+
+const PASSPHRASE_ATTEMPTS = 3;
+
+const KEYRING_SERVICE = "anagrama-cli";
+const KEYRING_TIMEOUT_MS = 5000;
+
+type MachineKeyFile = { backend?: undefined; iv: string; data: string };
+type KeyringPointerFile = { backend: "keyring" };
+type PassphraseFile = { backend: "passphrase"; salt: string; iv: string; tag: string; data: string };
+type CredFile = MachineKeyFile | KeyringPointerFile | PassphraseFile;
+
+// ── Process helper ──────────────────────────────────────────────────────────
+
+type RunResult = { code: number | null; stdout: string; missing: boolean };
+
+/** Run a helper binary, optionally feeding stdin, with a hard timeout. Never throws. */
+function run(cmd: string, args: string[], input?: string): Promise<RunResult> {
+  return new Promise((resolve) => {
+    let stdout = "";
+    let settled = false;
+    const finish = (result: RunResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(result);
+    };
+    let proc: ReturnType<typeof spawn>;
+    try {
+      proc = spawn(cmd, args, { stdio: ["pipe", "pipe", "ignore"], windowsHide: true });
+    } catch {
+      resolve({ code: null, stdout: "", missing: true });
+      return;
+    }
+    const timer = setTimeout(() => {
+      proc.kill();
+      finish({ code: null, stdout, missing: false });
+    }, KEYRING_TIMEOUT_MS);
+    proc.stdout?.setEncoding("utf8");
+    proc.stdout?.on("data", (chunk: string) => { stdout += chunk; });
+    proc.on("error", (err: NodeJS.ErrnoException) => finish({ code: null, stdout, missing: err.code === "ENOENT" }));
+    proc.on("close", (code) => finish({ code, stdout, missing: false }));
+    proc.stdin?.on("error", () => {});
+    proc.stdin?.end(input ?? "");
+  });
+}
+
+// ── OS keyring ──────────────────────────────────────────────────────────────
+
+/** PowerShell snippet that loads the WinRT PasswordVault (Windows Credential Manager). */
+const PS_VAULT = "[void][Windows.Security.Credentials.PasswordVault,Windows.Security.Credentials,ContentType=WindowsRuntime];$v=New-Object Windows.Security.Credentials.PasswordVault;";
+
+function psQuote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function powershell(script: string, input?: string): Promise<RunResult> {
+  return run("powershell.exe", ["-NoProfile", "-NonInteractive", "-Command", script], input);
+}
+
+/** Quote an argument for a command run through `security -i`, which reads its commands from stdin. */
+function securityQuote(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+export function keyringLabel(): string {
+  if (process.platform === "darwin") return "macOS Keychain";
+  if (process.platform === "win32") return "Windows Credential Manager";
+  return "Secret Service (libsecret)";
+}
+
+let keyringAvailableCache: boolean | null = null;
+
+/** Whether the platform's secret store can be used from this session. */
+export async function keyringAvailable(): Promise<boolean> {
+  if (keyringAvailableCache !== null) return keyringAvailableCache;
+  let available = false;
+  if (process.platform === "darwin") {
+    available = !(await run("security", ["help"])).missing;
+  } else if (process.platform === "win32") {
+    const probe = await powershell(`${PS_VAULT}Write-Output ok`);
+    available = probe.code === 0 && probe.stdout.trim() === "ok";
+  } else if (process.env.DBUS_SESSION_BUS_ADDRESS) {
+    // secret-tool with no arguments prints usage; all we care about is that it exists
+    available = !(await run("secret-tool", [])).missing;
+  }
+  keyringAvailableCache = available;
+  return available;
+}
+
+async function keyringGet(account: string): Promise<string | null> {
+  let res: RunResult;
+  if (process.platform === "darwin") {
+    res = await run("security", ["find-generic-password", "-s", KEYRING_SERVICE, "-a", account, "-w"]);
+  } else if (process.platform === "win32") {
+    res = await powershell(`${PS_VAULT}$c=$v.Retrieve(${psQuote(KEYRING_SERVICE)},${psQuote(account)});$c.RetrievePassword();[Console]::Out.Write($c.Password)`);
+  } else {
+    res = await run("secret-tool", ["lookup", "service", KEYRING_SERVICE, "account", account]);
+  }
+  if (res.code !== 0) return null;
+  return res.stdout.replace(/\r?\n$/, "") || null;
+}
+
+async function keyringSet(account: string, token: string): Promise<boolean> {
+  let res: RunResult;
+  if (process.platform === "darwin") {
+    // `security -i` takes its commands on stdin, which keeps the token off the process list;
+    // a failed command doesn't change its exit code, so the token is read back to check
+    const args = ["add-generic-password", "-U", "-s", KEYRING_SERVICE, "-a", account, "-l", `Anagrama CLI (${account})`, "-w", token];
+    res = await run("security", ["-i"], args.map(securityQuote).join(" ") + "\n");
+    return res.code === 0 && (await keyringGet(account)) === token;
+  } else if (process.platform === "win32") {
+    // Token arrives on stdin so it never shows up in the process list
+    res = await powershell(`${PS_VAULT}$t=[Console]::In.ReadToEnd();$v.Add((New-Object Windows.Security.Credentials.PasswordCredential(${psQuote(KEYRING_SERVICE)},${psQuote(account)},$t)))`, token);
+  } else {
+    res = await run("secret-tool", ["store", `--label=Anagrama CLI (${account})`, "service", KEYRING_SERVICE, "account", account], token);
+  }
+  return res.code === 0;
+}
+
+async function keyringDelete(account: string): Promise<void> {
+  if (process.platform === "darwin") {
+    await run("security", ["delete-generic-password", "-s", KEYRING_SERVICE, "-a", account]);
+  } else if (process.platform === "win32") {
+    await powershell(`${PS_VAULT}try{$v.Remove($v.Retrieve(${psQuote(KEYRING_SERVICE)},${psQuote(account)}))}catch{}`);
+  } else {
+    await run("secret-tool", ["clear", "service", KEYRING_SERVICE, "account", account]);
+  }
+}
+
+// ── File ciphers ────────────────────────────────────────────────────────────
+
+// Derives a machine-specific key from hostname + homedir so the file isn't portable.
+// This only keeps the token from being copied elsewhere — prefer the keyring or a passphrase.
+function machineKey(): Buffer {
+  const seed = `anagrama:${os.hostname()}:${os.homedir()}`;
+  return crypto.createHash("sha256").update(seed).digest();
+}
+
+function encryptWithMachineKey(token: string): CredFile {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv("aes-256-cbc", machineKey(), iv);
+  let encrypted = cipher.update(token, "utf8", "hex");
+  encrypted += cipher.final("hex");
+  return { iv: iv.toString("hex"), data: encrypted };
+}
+
+function decryptWithMachineKey(file: MachineKeyFile): string {
+  const decipher = crypto.createDecipheriv("aes-256-cbc", machineKey(), Buffer.from(file.iv, "hex"));
+  let decrypted = decipher.update(file.data, "hex", "utf8");
+  decrypted += decipher.final("utf8");
+  return decrypted;
+}
+
+function passphraseKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32);
+}
+
+function encryptWithPassphrase(token: string, passphrase: string): CredFile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", passphraseKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  return {
+    backend: "passphrase",
+    salt: salt.toString("hex"),
+    iv: iv.toString("hex"),
+    tag: cipher.getAuthTag().toString("hex"),
+    data: data.toString("hex"),
+  };
+}
+
+function decryptWithPassphrase(file: PassphraseFile, passphrase: string): string {
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    passphraseKey(passphrase, Buffer.from(file.salt, "hex")),
+    Buffer.from(file.iv, "hex"),
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, "hex"));
+  return Buffer.concat([decipher.update(Buffer.from(file.data, "hex")), decipher.final()]).toString("utf8");
+}
+
+async function readCredFile(credPath: string): Promise<CredFile | null> {
+  try {
+    return JSON.parse(await fs.readFile(credPath, "utf8")) as CredFile;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCredFile(credPath: string, file: CredFile): Promise<void> {
+  await fs.mkdir(path.dirname(credPath), { recursive: true });
+  await fs.writeFile(credPath, JSON.stringify(file), { encoding: "utf8", mode: 0o600 });
+}
+
+// ── Public API ──────────────────────────────────────────────────────────────
+
+export function backendLabel(backend: CredentialBackend): string {
+  if (backend === "keyring") return keyringLabel();
+  if (backend === "passphrase") return "Passphrase-encrypted file";
+  return "Encrypted file (machine key)";
+}
+
+/** Which backend currently holds the token for this context, or null if logged out. */
+export async function currentBackend(ctx: CredentialContext): Promise<CredentialBackend | null> {
+  const file = await readCredFile(ctx.credPath);
+  if (!file) return null;
+  return file.backend ?? "file";
+}
+
+export async function readToken(ctx: CredentialContext): Promise<TokenRead> {
+  const file = await readCredFile(ctx.credPath);
+  if (!file) return { token: null };
+  if (file.backend === "keyring") return { token: await keyringGet(ctx.account) };
+  if (file.backend === "passphrase") {
+    const sealed = file as PassphraseFile;
+    for (let attempt = 1; attempt <= PASSPHRASE_ATTEMPTS; attempt++) {
+      const passphrase = await ctx.getPassphrase();
+      if (!passphrase) return { token: null };
+      try {
+        return { token: decryptWithPassphrase(sealed, passphrase) || null };
+      } catch {
+        // AES-GCM's tag check fails on a wrong passphrase
+        if (attempt === PASSPHRASE_ATTEMPTS || !ctx.rejectPassphrase()) break;
+      }
+    }
+    return { token: null, error: "wrong-passphrase" };
+  }
+  try {
+    return { token: decryptWithMachineKey(file) || null };
+  } catch {
+    return { token: null, error: "unreadable" };
+  }
+}
+
+/**
+ * Store a token. Without an explicit backend the token stays wherever it lives
+ * now; fresh logins prefer the OS keyring and fall back to the file cipher.
+ * Returns the backend actually used, or null on failure.
+ */
+export async function writeToken(ctx: CredentialContext, token: string, backend?: CredentialBackend): Promise<CredentialBackend | null> {
+  let target = backend ?? (await currentBackend(ctx)) ?? ((await keyringAvailable()) ? "keyring" : "file");
+  try {
+    if (target === "keyring") {
+      if ((await keyringAvailable()) && (await keyringSet(ctx.account, token))) {
+        await writeCredFile(ctx.credPath, { backend: "keyring" });
+        return "keyring";
+      }
+      if (backend === "keyring") return null; // explicitly requested — don't silently downgrade
+      target = "file";
+    }
+    if (target === "passphrase") {
+      const passphrase = await ctx.getPassphrase();
+      if (!passphrase) return null;
+      await writeCredFile(ctx.credPath, encryptWithPassphrase(token, passphrase));
+      return "passphrase";
+    }
+    await writeCredFile(ctx.credPath, encryptWithMachineKey(token));
+    return "file";
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteToken(ctx: CredentialContext): Promise<void> {
+  if ((await currentBackend(ctx)) === "keyring") {
+    await keyringDelete(ctx.account);
+  }
+  try {
+    await fs.unlink(ctx.credPath);
+  } catch {
+    // File doesn't exist or already deleted
+  }
+}
+
+/**
+ * Move the token to another backend. The old keyring entry is cleared once the
+ * new copy is safely written.
+ */
+export async function migrateToken(ctx: CredentialContext, to: CredentialBackend): Promise<{ ok: boolean; from: CredentialBackend | null; error?: string }> {
+  const from = await currentBackend(ctx);
+  if (!from) return { ok: false, from, error: "Not logged in." };
+  const { token, error } = await readToken(ctx);
+  if (!token) return { ok: false, from, error: error === "wrong-passphrase" ? "Wrong passphrase." : "Could not read the stored token." };
+  if (to === "keyring" && !(await keyringAvailable())) {
+    return { ok: false, from, error: `${keyringLabel()} isn't available on this machine.` };
+  }
+  const used = await writeToken(ctx, token, to);
+  if (used !== to) return { ok: false, from, error: `Could not store the token in: ${backendLabel(to)}.` };
+  if (from === "keyring" && to !== "keyring") {
+    await keyringDelete(ctx.account);
+  }
+  return { ok: true, from };
+}
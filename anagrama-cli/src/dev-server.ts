@@ -0,0 +1,452 @@
+// Local stand-in for the Anagrama backend (`anagrama dev-server`). Implements every
+// endpoint the CLI calls against a small fixture dictionary, so the full game,
+// login and sync flows work offline. Puzzles are derived from the date key, so
+// the same day always gets the same words. State lives in memory and is lost
+// when the server stops.
+
+import http from "http";
+import type {
+  ApiUser,
+  DefineagramSession,
+  HistoryItem,
+  PuzzleGuess,
+} from "./api.js";
+import { hashKey, markGuess, scrambleWord, seededRandom, shuffle, sortedLetters } from "./puzzle.js";
+
+// ── Fixtures ────────────────────────────────────────────────────────────────
+
+type FixtureWord = {
+  word: string;
+  alternates: string[]; // other real words using exactly the same letters
+  definition: string;
+  partOfSpeech: string;
+  phonetic: string;
+};
+
+const FIXTURE_WORDS: FixtureWord[] = [
+  { word: "stale", alternates: ["least", "slate", "steal", "tales", "teals", "tesla"], definition: "No longer fresh and pleasant to eat; hard, musty, or dry.", partOfSpeech: "adjective", phonetic: "/steɪl/" },
+  { word: "heart", alternates: ["earth", "hater"], definition: "The hollow muscular organ that pumps blood through the body.", partOfSpeech: "noun", phonetic: "/hɑːt/" },
+  { word: "listen", alternates: ["silent", "enlist", "tinsel", "inlets"], definition: "Give one's attention to a sound.", partOfSpeech: "verb", phonetic: "/ˈlɪs(ə)n/" },
+  { word: "night", alternates: ["thing"], definition: "The period of darkness between sunset and sunrise.", partOfSpeech: "noun", phonetic: "/nʌɪt/" },
+  { word: "crate", alternates: ["trace", "react", "cater", "caret"], definition: "A slatted wooden case used for transporting goods.", partOfSpeech: "noun", phonetic: "/kreɪt/" },
+  { word: "angle", alternates: ["glean", "angel"], definition: "The space between two intersecting lines or surfaces at or close to the point where they meet.", partOfSpeech: "noun", phonetic: "/ˈaŋɡ(ə)l/" },
+  { word: "spare", alternates: ["parse", "spear", "pears", "reaps", "pares"], definition: "Additional to what is required for ordinary use.", partOfSpeech: "adjective", phonetic: "/spɛː/" },
+  { word: "elbow", alternates: ["below", "bowel"], definition: "The joint between the forearm and the upper arm.", partOfSpeech: "noun", phonetic: "/ˈɛlbəʊ/" },
+  { word: "study", alternates: ["dusty"], definition: "The devotion of time and attention to acquiring knowledge.", partOfSpeech: "noun", phonetic: "/ˈstʌdi/" },
+  { word: "stream", alternates: ["master", "tamers"], definition: "A small, narrow river.", partOfSpeech: "noun", phonetic: "/striːm/" },
+  { word: "meteor", alternates: ["remote"], definition: "A small body of matter from outer space that glows as it enters the atmosphere.", partOfSpeech: "noun", phonetic: "/ˈmiːtɪə/" },
+  { word: "sliver", alternates: ["silver", "livers"], definition: "A small, narrow, sharp piece cut or split off a larger piece.", partOfSpeech: "noun", phonetic: "/ˈslɪvə/" },
+];
+
+const EXTRA_LETTERS = "aeioulnrst";
+const MAX_ATTEMPTS = 5;
+const MAX_ANAGRAMA_HINTS = 2;
+const DEFINEAGRAM_HINT_PENALTY_MS = 10_000;
+const DEV_USER: ApiUser = { userId: "dev-user", username: "dev", displayName: "Dev Player" };
+
+type DailyFixture = {
+  anagrama: FixtureWord;
+  scramble: string;
+  defineagram: FixtureWord;
+  defineagramLetters: string;
+  defineagramHints: string[];
+};
+
+/** The fixed puzzles for one day. Both games use different words. */
+export function fixtureForDate(dateKey: string): DailyFixture {
+  const seed = hashKey(dateKey);
+  const random = seededRandom(seed);
+  const anagrama = FIXTURE_WORDS[seed % FIXTURE_WORDS.length];
+  const defineagram = FIXTURE_WORDS[(seed + 5) % FIXTURE_WORDS.length];
+
+  const scramble = scrambleWord(anagrama.word, random);
+  const extra = EXTRA_LETTERS[Math.floor(random() * EXTRA_LETTERS.length)];
+  const vowels = defineagram.word.replace(/[^aeiou]/g, "").length;
+
+  return {
+    anagrama,
+    scramble,
+    defineagram,
+    defineagramLetters: shuffle(defineagram.word + extra, random),
+    defineagramHints: [
+      `Starts with "${defineagram.word[0].toUpperCase()}"`,
+      `Has ${vowels} vowel${vowels === 1 ? "" : "s"}`,
+      `Ends with "${defineagram.word[defineagram.word.length - 1].toUpperCase()}"`,
+    ],
+  };
+}
+
+// ── State ───────────────────────────────────────────────────────────────────
+
+type AnagramaState = {
+  archive: boolean; // first opened after its day
+  attempts: number;
+  done: boolean;
+  win: boolean;
+  hintsUsed: number;
+  revealed: number[];
+  guesses: PuzzleGuess[];
+};
+
+type DefineagramState = DefineagramSession & { usedHints: string[] };
+
+type PlayerState = {
+  anagrama: Map<string, AnagramaState>;
+  defineagram: Map<string, DefineagramState>;
+};
+
+export type DevServerOptions = {
+  port?: number;
+  host?: string;
+  /** Artificial delay per request, to exercise spinners and timeouts. */
+  latencyMs?: number;
+  /** Pre-fill this many past days of results for `stats sync` demos. */
+  backfillDays?: number;
+  /** Called once per request with a short access-log line. */
+  log?: (line: string) => void;
+};
+
+export type DevServer = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+function localDateKey(d = new Date()): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve) => {
+    let raw = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => { raw += chunk; });
+    req.on("end", () => {
+      try {
+        const parsed = raw ? JSON.parse(raw) : {};
+        resolve(parsed && typeof parsed === "object" ? parsed : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+/** Start the mock server. Resolves once it's listening. */
+export function startDevServer(opts: DevServerOptions = {}): Promise<DevServer> {
+  const host = opts.host || "127.0.0.1";
+  const players = new Map<string, PlayerState>();
+  const deviceCodes = new Set<string>();
+  let nextDevice = 1;
+
+  const player = (token: string): PlayerState => {
+    let state = players.get(token);
+    if (!state) {
+      state = { anagrama: new Map(), defineagram: new Map() };
+      players.set(token, state);
+      seedBackfill(state, opts.backfillDays || 0);
+    }
+    return state;
+  };
+
+  const anagramaState = (p: PlayerState, dateKey: string): AnagramaState => {
+    let s = p.anagrama.get(dateKey);
+    if (!s) {
+      s = { archive: dateKey < localDateKey(), attempts: 0, done: false, win: false, hintsUsed: 0, revealed: [], guesses: [] };
+      p.anagrama.set(dateKey, s);
+    }
+    return s;
+  };
+
+  const defineagramState = (p: PlayerState, dateKey: string): DefineagramState => {
+    let s = p.defineagram.get(dateKey);
+    if (!s) {
+      s = { hintsUsed: 0, usedHints: [], inProgressWrongGuesses: 0, inProgressPenaltyMs: 0 };
+      p.defineagram.set(dateKey, s);
+    }
+    return s;
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse, baseUrl: string): Promise<number> => {
+    const url = new URL(req.url || "/", baseUrl);
+    const route = `${req.method} ${url.pathname}`;
+    const send = (status: number, body: unknown): number => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+      return status;
+    };
+    const body = req.method === "POST" ? await readBody(req) : {};
+
+    // ── Site pages (browser side of the device login) ──
+    if (req.method === "GET" && (url.pathname === "/cli-auth" || url.pathname === "/cli/verify")) {
+      res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+      res.end("<!doctype html><title>Anagrama dev server</title><p>Dev server: logins are approved automatically. You can close this tab.</p>");
+      return 200;
+    }
+
+    // ── Device login ──
+    if (route === "POST /cli/auth/start") {
+      const deviceCode = `dev-device-${nextDevice++}`;
+      deviceCodes.add(deviceCode);
+      return send(200, {
+        device_code: deviceCode,
+        user_code: "DEV-" + String(1000 + nextDevice).slice(-4),
+        verification_url: `${baseUrl}/cli/verify?code=${deviceCode}`,
+        expires_in: 600,
+        interval: 1,
+      });
+    }
+    if (route === "POST /cli/auth/poll") {
+      const deviceCode = String(body.device_code || "");
+      if (!deviceCodes.has(deviceCode)) return send(400, { error: "Unknown device code" });
+      deviceCodes.delete(deviceCode);
+      return send(200, { status: "approved", token: `dev-${deviceCode}`, user: DEV_USER });
+    }
+
+    // Everything below needs a dev token; anything else behaves like a revoked one
+    const auth = req.headers.authorization || "";
+    const token = auth.startsWith("Bearer ") ? auth.slice(7) : "";
+    if (!token.startsWith("dev-")) return send(401, { error: "Unauthorized" });
+    const p = player(token);
+    const today = localDateKey();
+
+    if (route === "GET /cli/auth/me") return send(200, { user: DEV_USER });
+
+    if (route === "GET /cli/history") {
+      const since = url.searchParams.get("since") || "";
+      const limit = Math.max(1, Number(url.searchParams.get("limit")) || 100);
+      const offset = Number(url.searchParams.get("cursor")) || 0;
+      const items = historyItems(p).filter((i) => !since || (i.dateKey || "") >= since);
+      const page = items.slice(offset, offset + limit);
+      return send(200, { items: page, nextCursor: offset + limit < items.length ? String(offset + limit) : null });
+    }
+
+    // ── Anagrama ──
+    // Past puzzles (archive) are picked with `?date=` on GET or `date` in the body
+    const requestedDate = String(url.searchParams.get("date") || body.date || "") || today;
+    if (url.pathname.startsWith("/anagrama/api/") && (!/^\d{4}-\d{2}-\d{2}$/.test(requestedDate) || requestedDate > today)) {
+      return send(404, { error: "No puzzle for that date." });
+    }
+    if (route === "GET /anagrama/api/puzzle") {
+      const fixture = fixtureForDate(requestedDate);
+      const s = anagramaState(p, requestedDate);
+      return send(200, {
+        id: requestedDate,
+        dateKey: requestedDate,
+        length: fixture.anagrama.word.length,
+        scramble: fixture.scramble,
+        maxAttempts: MAX_ATTEMPTS,
+        session: { attempts: s.attempts, done: s.done, win: s.win, hintsUsed: s.hintsUsed, guesses: s.guesses },
+      });
+    }
+    if (route === "POST /anagrama/api/guess") {
+      const { anagrama } = fixtureForDate(requestedDate);
+      const s = anagramaState(p, requestedDate);
+      const guess = String(body.guess || "").toLowerCase();
+      if (s.done) return send(400, { message: "This puzzle is already finished." });
+      if (sortedLetters(guess) !== sortedLetters(anagrama.word)) {
+        return send(200, { validWord: false, valid: false, message: "Use all the letters in the puzzle." });
+      }
+      const marks = markGuess(guess, anagrama.word);
+      if (guess === anagrama.word) {
+        s.done = true;
+        s.win = true;
+        s.guesses.push({ word: guess, marks, isTarget: true });
+        return send(200, { validWord: true, accepted: true, isTarget: true, marks, attempts: s.attempts, done: true, message: "You found it!" });
+      }
+      if (anagrama.alternates.includes(guess)) {
+        if (!s.guesses.some((g) => g.word === guess)) s.guesses.push({ word: guess, marks, isAlt: true });
+        return send(200, { validWord: true, accepted: true, isAltAnagram: true, marks, attempts: s.attempts, done: false, message: "Nice — a valid anagram, but not today's word." });
+      }
+      s.attempts++;
+      s.done = s.attempts >= MAX_ATTEMPTS;
+      s.guesses.push({ word: guess, marks });
+      return send(200, { validWord: true, accepted: false, isTarget: false, marks, attempts: s.attempts, done: s.done, message: "Not the word." });
+    }
+    if (route === "POST /anagrama/api/hint") {
+      const { anagrama } = fixtureForDate(requestedDate);
+      const s = anagramaState(p, requestedDate);
+      if (s.done) return send(400, { error: "This puzzle is already finished." });
+      if (s.hintsUsed >= MAX_ANAGRAMA_HINTS) return send(400, { error: "No hints left for this puzzle." });
+      const position = [...anagrama.word].findIndex((_, i) => !s.revealed.includes(i));
+      s.revealed.push(position);
+      s.hintsUsed++;
+      return send(200, { position, letter: anagrama.word[position] });
+    }
+
+    // ── Defineagram ──
+    if (route === "GET /api/definagram/daily") {
+      const fixture = fixtureForDate(today);
+      const s = defineagramState(p, today);
+      const finished = s.completed || s.revealed;
+      return send(200, {
+        id: today,
+        dateKey: today,
+        letters: fixture.defineagramLetters,
+        definition: fixture.defineagram.definition,
+        wordLength: fixture.defineagram.word.length,
+        difficulty: "medium",
+        extraLetters: fixture.defineagramLetters.length - fixture.defineagram.word.length,
+        phonetic: fixture.defineagram.phonetic,
+        partOfSpeech: fixture.defineagram.partOfSpeech,
+        hintsAvailable: fixture.defineagramHints.length,
+        session: { ...s, word: finished ? fixture.defineagram.word : undefined },
+      });
+    }
+    if (route === "POST /api/definagram/daily/start") {
+      const s = defineagramState(p, today);
+      s.startedAt ??= new Date().toISOString();
+      return send(200, { startedAt: s.startedAt });
+    }
+    if (route === "POST /api/definagram/daily/progress") {
+      const s = defineagramState(p, today);
+      s.inProgressWrongGuesses = Number(body.wrongGuesses) || 0;
+      s.inProgressPenaltyMs = Number(body.penaltyMs) || 0;
+      if (body.pausedMs !== undefined) s.pausedMs = Number(body.pausedMs) || 0;
+      if (body.pausedAt !== undefined) s.pausedAt = typeof body.pausedAt === "string" ? body.pausedAt : undefined;
+      return send(200, { ok: true });
+    }
+    if (route === "POST /api/definagram/daily") {
+      const s = defineagramState(p, today);
+      const timeMs = Number(body.timeMs) || 0;
+      s.completed = true;
+      s.timeMs = timeMs;
+      s.wrongGuesses = Number(body.wrongGuesses) || s.inProgressWrongGuesses || 0;
+      s.penaltyMs = s.inProgressPenaltyMs || 0;
+      s.totalTimeMs = timeMs + s.penaltyMs;
+      s.pausedMs = Number(body.pausedMs) || s.pausedMs || 0;
+      s.pausedAt = undefined;
+      return send(200, { ok: true });
+    }
+    if (route === "POST /api/definagram/hint") {
+      const { defineagramHints } = fixtureForDate(today);
+      const s = defineagramState(p, today);
+      const idx = Math.max(0, Number(body.hintsUsed) || 0);
+      if (idx >= defineagramHints.length) return send(400, { error: "No hints left for today." });
+      const hint = defineagramHints[idx];
+      if (!s.usedHints.includes(hint)) {
+        s.usedHints.push(hint);
+        s.hintsUsed = s.usedHints.length;
+      }
+      return send(200, { hint, hintsRemaining: defineagramHints.length - s.usedHints.length, penaltyMs: DEFINEAGRAM_HINT_PENALTY_MS });
+    }
+    if (route === "GET /api/definagram/reveal") {
+      const { defineagram } = fixtureForDate(today);
+      defineagramState(p, today).revealed = true;
+      return send(200, {
+        word: defineagram.word,
+        definition: defineagram.definition,
+        phonetic: defineagram.phonetic,
+        partOfSpeech: defineagram.partOfSpeech,
+      });
+    }
+    if (route === "POST /api/definagram/guess") {
+      const { defineagram } = fixtureForDate(today);
+      const correct = String(body.guess || "").toLowerCase() === defineagram.word;
+      return send(200, correct
+        ? { correct: true, word: defineagram.word, phonetic: defineagram.phonetic, partOfSpeech: defineagram.partOfSpeech }
+        : { correct: false, message: "Not quite — keep going." });
+    }
+
+    return send(404, { error: `No mock for ${route}` });
+  };
+
+  return new Promise((resolve, reject) => {
+    let baseUrl = "";
+    const server = http.createServer((req, res) => {
+      const started = Date.now();
+      const delay = opts.latencyMs ? new Promise((r) => setTimeout(r, opts.latencyMs)) : Promise.resolve();
+      delay
+        .then(() => handle(req, res, baseUrl))
+        .catch((err) => {
+          res.writeHead(500, { "content-type": "application/json" });
+          res.end(JSON.stringify({ error: String(err) }));
+          return 500;
+        })
+        .then((status) => opts.log?.(`${req.method} ${req.url} → ${status} (${Date.now() - started}ms)`));
+    });
+    server.once("error", reject);
+    server.listen(opts.port ?? 4646, host, () => {
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : opts.port;
+      baseUrl = `http://${host}:${port}`;
+      resolve({
+        url: baseUrl,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// ── History ─────────────────────────────────────────────────────────────────
+
+/** Finished games for `/cli/history`, newest first. */
+function historyItems(p: PlayerState): HistoryItem[] {
+  const items: HistoryItem[] = [];
+  for (const [dateKey, s] of p.anagrama) {
+    if (!s.done) continue;
+    items.push({
+      game: "anagrama",
+      dateKey,
+      won: s.win,
+      attempts: s.attempts,
+      hintsUsed: s.hintsUsed,
+      guesses: s.guesses,
+      ...(s.archive ? { archive: true } : {}),
+    });
+  }
+  for (const [dateKey, s] of p.defineagram) {
+    if (!s.completed && !s.revealed) continue;
+    items.push({
+      game: "defineagram",
+      dateKey,
+      won: !!s.completed && !s.revealed,
+      revealed: !!s.revealed,
+      timeMs: s.totalTimeMs,
+      penaltyMs: s.penaltyMs,
+      wrongGuesses: s.wrongGuesses,
+      hintsUsed: s.hintsUsed,
+    });
+  }
+  return items.sort((a, b) => (b.dateKey || "").localeCompare(a.dateKey || ""));
+}
+
+/** Deterministic past results, as if the player had been using the website. */
+function seedBackfill(p: PlayerState, days: number): void {
+  for (let i = 1; i <= days; i++) {
+    const d = new Date();
+    d.setDate(d.getDate() - i);
+    const dateKey = localDateKey(d);
+    const random = seededRandom(hashKey("history:" + dateKey));
+    if (random() < 0.2) continue; // skipped day
+
+    const { anagrama, defineagram } = fixtureForDate(dateKey);
+    const win = random() < 0.85;
+    const attempts = win ? Math.floor(random() * 3) : MAX_ATTEMPTS;
+    p.anagrama.set(dateKey, {
+      archive: false,
+      attempts,
+      done: true,
+      win,
+      hintsUsed: random() < 0.3 ? 1 : 0,
+      revealed: [],
+      guesses: win ? [{ word: anagrama.word, marks: markGuess(anagrama.word, anagrama.word), isTarget: true }] : [],
+    });
+
+    if (random() < 0.6) {
+      const solved = random() < 0.9;
+      const wrongGuesses = Math.floor(random() * 3);
+      const timeMs = 20_000 + Math.floor(random() * 100_000);
+      p.defineagram.set(dateKey, {
+        completed: solved,
+        revealed: !solved,
+        timeMs,
+        wrongGuesses,
+        penaltyMs: wrongGuesses * 5000,
+        totalTimeMs: timeMs + wrongGuesses * 5000,
+        hintsUsed: 0,
+        usedHints: [],
+        word: defineagram.word,
+      });
+    }
+  }
+}
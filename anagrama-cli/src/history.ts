@@ -0,0 +1,316 @@
+// Append-only game history. One JSON line per event in history.jsonl:
+//   { kind: "game", ... }      a finished game for one puzzle day
+//   { kind: "baseline", ... }  aggregate counters carried over from the old stats files
+// A later "game" line for the same game + dateKey supersedes the earlier one, so
+// corrections (e.g. a win synced from the website) never double count. Stats are
+// always derived from the log rather than stored.
+
+import fs from "fs/promises";
+import path from "path";
+
+export type GameId = "anagrama" | "defineagram";
+
+export type HistorySource = "cli" | "web";
+
+export type HistoryGuess = { word: string; marks: string[] };
+
+export type GameRecord = {
+  kind: "game";
+  game: GameId;
+  dateKey: string;
+  won: boolean;
+  guesses: HistoryGuess[];
+  hintsUsed: number;
+  altFound: number;
+  source: HistorySource;
+  recordedAt: string;
+  // Anagrama
+  attempts?: number;   // wrong guesses (lives spent)
+  livesLeft?: number;
+  /** Played from the archive after its day: counts as played, but never toward a streak. */
+  archive?: boolean;
+  // Defineagram
+  timeMs?: number;     // total including penalties
+  penaltyMs?: number;
+  wrongGuesses?: number;
+  /** Created from the old aggregate stats files — details weren't recorded. */
+  migrated?: boolean;
+};
+
+/** A game record before it's stamped for the log. */
+export type NewGameRecord = Omit<GameRecord, "kind" | "recordedAt">;
+
+export type BaselineRecord = {
+  kind: "baseline";
+  game: GameId;
+  /** Game records on or before this date are already counted in `stats`. */
+  asOf: string;
+  stats: GameStats | DefineagramStats;
+  recordedAt: string;
+};
+
+export type HistoryEntry = GameRecord | BaselineRecord;
+
+export type GameStats = {
+  gamesPlayed: number;
+  gamesWon: number;
+  currentStreak: number;
+  maxStreak: number;
+  guessDistribution: number[]; // index 0 = solved in 1, index 4 = solved in 5
+  lastPlayedDate: string;
+  lastPlayedWon: boolean;
+  lastPlayedAttempts: number;
+};
+
+export const DEFAULT_STATS: GameStats = {
+  gamesPlayed: 0,
+  gamesWon: 0,
+  currentStreak: 0,
+  maxStreak: 0,
+  guessDistribution: [0, 0, 0, 0, 0],
+  lastPlayedDate: "",
+  lastPlayedWon: false,
+  lastPlayedAttempts: 0,
+};
+
+export type DefineagramStats = {
+  gamesPlayed: number;
+  gamesWon: number;
+  currentStreak: number;
+  maxStreak: number;
+  bestTimeMs: number | null;
+  avgTimeMs: number | null;
+  totalTimeMs: number;
+  lastPlayedDate: string;
+  lastPlayedWon: boolean;
+  lastPlayedTimeMs: number;
+};
+
+export const DEFAULT_DEFINEAGRAM_STATS: DefineagramStats = {
+  gamesPlayed: 0,
+  gamesWon: 0,
+  currentStreak: 0,
+  maxStreak: 0,
+  bestTimeMs: null,
+  avgTimeMs: null,
+  totalTimeMs: 0,
+  lastPlayedDate: "",
+  lastPlayedWon: false,
+  lastPlayedTimeMs: 0,
+};
+
+// ── Storage ─────────────────────────────────────────────────────────────────
+
+export async function readHistory(filePath: string): Promise<HistoryEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf8");
+  } catch {
+    return [];
+  }
+  const entries: HistoryEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as HistoryEntry;
+      if (entry && (entry.kind === "game" || entry.kind === "baseline")) entries.push(entry);
+    } catch {
+      // Skip a torn or hand-edited line rather than losing the whole log
+    }
+  }
+  return entries;
+}
+
+export async function appendHistory(filePath: string, entries: HistoryEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, entries.map((e) => JSON.stringify(e)).join("\n") + "\n", "utf8");
+}
+
+// ── Queries ─────────────────────────────────────────────────────────────────
+
+/** Effective record per day for one game (latest line wins), oldest day first. */
+export function gameRecords(entries: HistoryEntry[], game: GameId): GameRecord[] {
+  const byDate = new Map<string, GameRecord>();
+  for (const e of entries) {
+    if (e.kind === "game" && e.game === game) byDate.set(e.dateKey, e);
+  }
+  return [...byDate.values()].sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+}
+
+export function findRecord(entries: HistoryEntry[], game: GameId, dateKey: string): GameRecord | undefined {
+  let found: GameRecord | undefined;
+  for (const e of entries) {
+    if (e.kind === "game" && e.game === game && e.dateKey === dateKey) found = e;
+  }
+  return found;
+}
+
+function latestBaseline(entries: HistoryEntry[], game: GameId): BaselineRecord | undefined {
+  let found: BaselineRecord | undefined;
+  for (const e of entries) {
+    if (e.kind === "baseline" && e.game === game) found = e;
+  }
+  return found;
+}
+
+// ── Reducers ────────────────────────────────────────────────────────────────
+
+export function computeAnagramaStats(entries: HistoryEntry[]): GameStats {
+  const baseline = latestBaseline(entries, "anagrama");
+  const stats: GameStats = baseline
+    ? { ...DEFAULT_STATS, ...(baseline.stats as GameStats), guessDistribution: [...(baseline.stats as GameStats).guessDistribution] }
+    : { ...DEFAULT_STATS, guessDistribution: [...DEFAULT_STATS.guessDistribution] };
+
+  for (const r of gameRecords(entries, "anagrama")) {
+    const attempts = r.attempts ?? r.guesses.length;
+    // The old stats never had archive plays, so those count whatever their date
+    if (baseline && !r.archive && r.dateKey <= baseline.asOf) {
+      // Already counted; a later correction of that last day only updates its result
+      if (r.dateKey === baseline.asOf && !r.migrated) {
+        stats.lastPlayedWon = r.won;
+        stats.lastPlayedAttempts = attempts;
+      }
+      continue;
+    }
+    stats.gamesPlayed++;
+    if (r.won) {
+      stats.gamesWon++;
+      // Lives spent, so a first-try win is "solved in 1"; older records only have the guess list, answer included
+      const idx = Math.max(0, Math.min(r.attempts ?? r.guesses.length - 1, 4));
+      stats.guessDistribution[idx] = (stats.guessDistribution[idx] || 0) + 1;
+    }
+    if (r.archive) continue;
+    stats.lastPlayedDate = r.dateKey;
+    stats.lastPlayedWon = r.won;
+    stats.lastPlayedAttempts = attempts;
+    if (r.won) {
+      stats.currentStreak++;
+      stats.maxStreak = Math.max(stats.maxStreak, stats.currentStreak);
+    } else {
+      stats.currentStreak = 0;
+    }
+  }
+  return stats;
+}
+
+export function computeDefineagramStats(entries: HistoryEntry[]): DefineagramStats {
+  const baseline = latestBaseline(entries, "defineagram");
+  const stats: DefineagramStats = baseline
+    ? { ...DEFAULT_DEFINEAGRAM_STATS, ...(baseline.stats as DefineagramStats) }
+    : { ...DEFAULT_DEFINEAGRAM_STATS };
+
+  for (const r of gameRecords(entries, "defineagram")) {
+    const timeMs = r.timeMs ?? 0;
+    if (baseline && r.dateKey <= baseline.asOf) {
+      if (r.dateKey === baseline.asOf && !r.migrated) {
+        stats.lastPlayedWon = r.won;
+        stats.lastPlayedTimeMs = timeMs;
+      }
+      continue;
+    }
+    stats.gamesPlayed++;
+    stats.lastPlayedDate = r.dateKey;
+    stats.lastPlayedWon = r.won;
+    stats.lastPlayedTimeMs = timeMs;
+    if (r.won) {
+      stats.gamesWon++;
+      stats.currentStreak++;
+      stats.maxStreak = Math.max(stats.maxStreak, stats.currentStreak);
+      stats.totalTimeMs += timeMs;
+      if (stats.bestTimeMs === null || timeMs < stats.bestTimeMs) {
+        stats.bestTimeMs = timeMs;
+      }
+      stats.avgTimeMs = Math.round(stats.totalTimeMs / stats.gamesWon);
+    } else {
+      stats.currentStreak = 0;
+    }
+  }
+  return stats;
+}
+
+// ── Server backfill ─────────────────────────────────────────────────────────
+
+export type MergeResult = {
+  records: GameRecord[]; // lines to append
+  added: number;         // days that weren't in the log
+  updated: number;       // days whose local record was superseded
+};
+
+/**
+ * Decide which server results to add to the log, per game + day:
+ *   - not recorded locally            → take the server's result
+ *   - local loss, server win          → take the win (finished on the website later)
+ *   - local record came from migration → take the server's, which has the details
+ *   - otherwise the local record stands
+ * Days already folded into a baseline can be added for the history views without
+ * being counted twice, since the reducers skip them.
+ */
+export function mergeRemoteRecords(entries: HistoryEntry[], remote: NewGameRecord[]): MergeResult {
+  const now = new Date().toISOString();
+  const current = new Map<string, GameRecord>();
+  for (const e of entries) {
+    if (e.kind === "game") current.set(`${e.game}:${e.dateKey}`, e);
+  }
+
+  const result: MergeResult = { records: [], added: 0, updated: 0 };
+  for (const r of remote) {
+    const key = `${r.game}:${r.dateKey}`;
+    const existing = current.get(key);
+    if (existing && !existing.migrated && !(r.won && !existing.won)) continue;
+    const record: GameRecord = { kind: "game", ...r, recordedAt: now };
+    current.set(key, record);
+    result.records.push(record);
+    if (existing) result.updated++;
+    else result.added++;
+  }
+  return result;
+}
+
+// ── Migration ───────────────────────────────────────────────────────────────
+
+/**
+ * Build history entries from the old aggregate stats files. Counters become a
+ * baseline; the last played day also gets a (detail-less) game record so it
+ * shows up in history views. The old files are left in place.
+ */
+export function migrateLegacyStats(anagrama: GameStats | null, defineagram: DefineagramStats | null): HistoryEntry[] {
+  const now = new Date().toISOString();
+  const entries: HistoryEntry[] = [];
+
+  if (anagrama && anagrama.gamesPlayed > 0 && anagrama.lastPlayedDate) {
+    entries.push({ kind: "baseline", game: "anagrama", asOf: anagrama.lastPlayedDate, stats: anagrama, recordedAt: now });
+    entries.push({
+      kind: "game",
+      game: "anagrama",
+      dateKey: anagrama.lastPlayedDate,
+      won: anagrama.lastPlayedWon,
+      guesses: [],
+      hintsUsed: 0,
+      altFound: 0,
+      attempts: anagrama.lastPlayedAttempts,
+      source: "cli",
+      recordedAt: now,
+      migrated: true,
+    });
+  }
+
+  if (defineagram && defineagram.gamesPlayed > 0 && defineagram.lastPlayedDate) {
+    entries.push({ kind: "baseline", game: "defineagram", asOf: defineagram.lastPlayedDate, stats: defineagram, recordedAt: now });
+    entries.push({
+      kind: "game",
+      game: "defineagram",
+      dateKey: defineagram.lastPlayedDate,
+      won: defineagram.lastPlayedWon,
+      guesses: [],
+      hintsUsed: 0,
+      altFound: 0,
+      timeMs: defineagram.lastPlayedTimeMs,
+      source: "cli",
+      recordedAt: now,
+      migrated: true,
+    });
+  }
+
+  return entries;
+}
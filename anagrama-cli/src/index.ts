@@ -1,72 +1,292 @@
 #!/usr/bin/env node
 
 import { Command } from "commander";
-import chalk from "chalk";
+import chalk, { type BackgroundColorName, type ChalkInstance, type ForegroundColorName } from "chalk";
 import open from "open";
 import { select } from "@inquirer/prompts";
-import boxen from "boxen";
+import boxen, { type Options as BoxenOptions } from "boxen";
 import fs from "fs/promises";
 import os from "os";
 import path from "path";
 import readline from "readline/promises";
 import process from "process";
-import crypto from "crypto";
 import { execFile, spawn } from "child_process";
 import { createRequire } from "module";
+import {
+  AnagramaClient,
+  isApiError,
+  type ApiError,
+  type DefineagramDailyResponse,
+  type DefineagramSession,
+  type HistoryItem,
+  type PuzzleResponse,
+} from "./api.js";
+import {
+  CREDENTIAL_BACKENDS,
+  backendLabel,
+  currentBackend,
+  deleteToken,
+  keyringAvailable,
+  migrateToken,
+  readToken,
+  writeToken,
+  type CredentialBackend,
+  type CredentialContext,
+} from "./credentials.js";
+import {
+  DEFAULT_DEFINEAGRAM_STATS,
+  DEFAULT_STATS,
+  appendHistory,
+  computeAnagramaStats,
+  computeDefineagramStats,
+  findRecord,
+  gameRecords,
+  mergeRemoteRecords,
+  migrateLegacyStats,
+  readHistory,
+  type DefineagramStats,
+  type GameId,
+  type GameRecord,
+  type GameStats,
+  type HistoryEntry,
+  type HistorySource,
+  type MergeResult,
+  type NewGameRecord,
+} from "./history.js";
+import { detectSystemTheme } from "./appearance.js";
+import { startDevServer } from "./dev-server.js";
+import {
+  DEFAULT_PRACTICE_LENGTH,
+  DEFAULT_PRACTICE_ROUNDS,
+  MAX_PRACTICE_ROUNDS,
+  PRACTICE_LENGTHS,
+  PRACTICE_MAX_LIVES,
+  appendPracticeRecord,
+  computePracticeStats,
+  createPracticeRounds,
+  practiceHint,
+  randomPracticeSeed,
+  readPracticeLog,
+  scorePracticeGuess,
+  type PracticeStats,
+} from "./practice.js";
+import {
+  EXIT,
+  JSON_SCHEMA_VERSION,
+  errorJson,
+  exitCodeForApiError,
+  printJson,
+  type ErrorJson,
+  type GameState,
+  type GuessJson,
+  type GuessResult,
+  type HintJson,
+  type PuzzleJson,
+  type StatsJson,
+  type StatusJson,
+  type WhoamiJson,
+} from "./output.js";
+import { Frame, frameHeight, screen } from "./screen.js";
+import { applyColorLevel, bgColor, color, colorLevel, detectTerminalColors, mono, nearestBasicColor } from "./colors.js";
+import {
+  MARK_KEYS,
+  THEME_COLOR_KEYS,
+  isHexColor,
+  normalizeHex,
+  readThemeFiles,
+  themeKey,
+  writeThemeFile,
+  type ThemeColorKey,
+  type ThemeFile,
+  type ThemeFileError,
+} from "./theme-files.js";
+import { BRACKETED_PASTE_OFF, BRACKETED_PASTE_ON, ESCAPE_TIMEOUT_MS, KeyDecoder, keyId, type Key } from "./keys.js";
+import { ACTIONS, HELP_ACTIONS, buildKeymap, keyLabel, keysFor, type Action, type KeyBindingsConfig, type Keymap } from "./keymap.js";
+import { LineEditor, poolIndices } from "./line-editor.js";
 
 const require = createRequire(import.meta.url);
 const { version: CURRENT_VERSION } = require("../package.json") as { version: string };
 
-const DEFAULT_SITE_URL = process.env.ANAGRAMA_URL || "https://playanagrama.com";
-const DEFAULT_API_URL = process.env.ANAGRAMA_API_URL || "https://api.playanagrama.com";
+// ANAGRAMA_URL / ANAGRAMA_API_URL win over the saved servers for this run (e.g. to
+// point at `anagrama dev-server`) and are never written back to the profile.
+const ENV_SITE_URL = process.env.ANAGRAMA_URL?.trim() || undefined;
+const ENV_API_URL = process.env.ANAGRAMA_API_URL?.trim() || undefined;
+const DEFAULT_SITE_URL = ENV_SITE_URL || "https://playanagrama.com";
+const DEFAULT_API_URL = ENV_API_URL || "https://api.playanagrama.com";
 const CONFIG_DIR = path.join(os.homedir(), ".anagrama");
 const CRED_PATH = path.join(CONFIG_DIR, "credentials");
 const CONFIG_PATH = path.join(CONFIG_DIR, "cli.json");
 const UPDATE_PATH = path.join(CONFIG_DIR, "update.json");
 const STATS_PATH = path.join(CONFIG_DIR, "stats.json");
+const DEFINEAGRAM_STATS_PATH = path.join(CONFIG_DIR, "defineagram-stats.json");
+const THEMES_DIR = path.join(CONFIG_DIR, "themes");
 const NPM_REGISTRY_URL = "https://registry.npmjs.org/anagrama/latest";
 const CHECK_INTERVAL_MS = 0; // Check every launch
 
-// Encrypted credential storage (pure JS, no native deps)
-// Derives a machine-specific key from hostname + homedir so the file isn't portable
-function credKey(): Buffer {
-  const seed = `anagrama:${os.hostname()}:${os.homedir()}`;
-  return crypto.createHash("sha256").update(seed).digest();
+// ── Profiles ─────────────────────────────────────────────────────────────────
+// The "default" profile keeps the original file layout in CONFIG_DIR so existing
+// installs keep working. Named profiles live in CONFIG_DIR/profiles/<name>/ with
+// their own account info (profile.json), credentials and stats files.
+
+const DEFAULT_PROFILE = "default";
+const PROFILES_DIR = path.join(CONFIG_DIR, "profiles");
+const PROFILE_NAME_RE = /^[a-z0-9][a-z0-9_-]{0,31}$/i;
+
+let activeProfile = DEFAULT_PROFILE;
+
+type ProfilePaths = {
+  dir: string;
+  credPath: string;
+  accountPath: string; // where baseUrl/apiUrl/user live for this profile
+  historyPath: string;
+  statsPath: string; // legacy aggregate stats, only read for migration
+  defineagramStatsPath: string;
+  practicePath: string; // offline practice rounds, kept apart from daily history
+};
+
+function profilePaths(name = activeProfile): ProfilePaths {
+  if (name === DEFAULT_PROFILE) {
+    return {
+      dir: CONFIG_DIR,
+      credPath: CRED_PATH,
+      accountPath: CONFIG_PATH,
+      historyPath: path.join(CONFIG_DIR, "history.jsonl"),
+      statsPath: STATS_PATH,
+      defineagramStatsPath: DEFINEAGRAM_STATS_PATH,
+      practicePath: path.join(CONFIG_DIR, "practice.jsonl"),
+    };
+  }
+  const dir = path.join(PROFILES_DIR, name);
+  return {
+    dir,
+    credPath: path.join(dir, "credentials"),
+    accountPath: path.join(dir, "profile.json"),
+    historyPath: path.join(dir, "history.jsonl"),
+    statsPath: path.join(dir, "stats.json"),
+    defineagramStatsPath: path.join(dir, "defineagram-stats.json"),
+    practicePath: path.join(dir, "practice.jsonl"),
+  };
 }
 
-async function getSecureToken(): Promise<string | null> {
+async function listProfiles(): Promise<string[]> {
   try {
-    const raw = await fs.readFile(CRED_PATH, "utf8");
-    const { iv, data } = JSON.parse(raw) as { iv: string; data: string };
-    const decipher = crypto.createDecipheriv("aes-256-cbc", credKey(), Buffer.from(iv, "hex"));
-    let decrypted = decipher.update(data, "hex", "utf8");
-    decrypted += decipher.final("utf8");
-    return decrypted || null;
+    const entries = await fs.readdir(PROFILES_DIR, { withFileTypes: true });
+    const named = entries
+      .filter((e) => e.isDirectory() && PROFILE_NAME_RE.test(e.name) && e.name !== DEFAULT_PROFILE)
+      .map((e) => e.name)
+      .sort();
+    return [DEFAULT_PROFILE, ...named];
   } catch {
-    return null;
+    return [DEFAULT_PROFILE];
   }
 }
 
-async function setSecureToken(token: string): Promise<boolean> {
+async function profileExists(name: string): Promise<boolean> {
+  return (await listProfiles()).includes(name);
+}
+
+/** Pick the profile for this run: --profile wins, then the saved active profile. */
+async function initProfile(flag?: string): Promise<void> {
+  if (flag) {
+    if (!(await profileExists(flag))) {
+      console.error(chalk.red(`Unknown profile "${flag}".`) + chalk.gray(" Run `anagrama profile list` to see profiles."));
+      process.exit(1);
+    }
+    activeProfile = flag;
+    return;
+  }
   try {
-    await fs.mkdir(CONFIG_DIR, { recursive: true });
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv("aes-256-cbc", credKey(), iv);
-    let encrypted = cipher.update(token, "utf8", "hex");
-    encrypted += cipher.final("hex");
-    await fs.writeFile(CRED_PATH, JSON.stringify({ iv: iv.toString("hex"), data: encrypted }), { encoding: "utf8", mode: 0o600 });
-    return true;
+    const raw = JSON.parse(await fs.readFile(CONFIG_PATH, "utf8")) as StoredConfig;
+    if (raw.activeProfile && (await profileExists(raw.activeProfile))) {
+      activeProfile = raw.activeProfile;
+    }
   } catch {
-    return false;
+    // No config yet — stay on the default profile
   }
 }
 
-async function deleteSecureToken(): Promise<void> {
-  try {
-    await fs.unlink(CRED_PATH);
-  } catch {
-    // File doesn't exist or already deleted
+// ── Credential storage ───────────────────────────────────────────────────────
+// Tokens go to the OS keyring when one is available, otherwise an encrypted file
+// (see credentials.ts). Reads are cached per profile so keyring helpers and the
+// passphrase prompt run at most once per session.
+
+const tokenCache = new Map<string, string | null>();
+let cachedPassphrase: string | null = null;
+
+/** Read a line from the terminal without echoing it. */
+function promptSecret(message: string): Promise<string> {
+  return new Promise((resolve) => {
+    const stdin = process.stdin;
+    let value = "";
+    process.stdout.write(message);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.setEncoding("utf8");
+    // A pasted passphrase can arrive in one chunk with its Enter, so go key by key
+    const decoder = new KeyDecoder();
+    const handleData = (chunk: string) => {
+      for (const key of decoder.feed(chunk)) {
+        if (key.name === "enter" || key.name === "ctrl-c") {
+          stdin.setRawMode(false);
+          stdin.removeListener("data", handleData);
+          stdin.pause();
+          process.stdout.write("\n");
+          resolve(key.name === "ctrl-c" ? "" : value);
+          return;
+        }
+        if (key.name === "backspace") value = value.slice(0, -1);
+        else if (key.name === "char" || key.name === "paste") value += key.text;
+      }
+    };
+    stdin.on("data", handleData);
+  });
+}
+
+async function getPassphrase(): Promise<string | null> {
+  if (process.env.ANAGRAMA_PASSPHRASE) return process.env.ANAGRAMA_PASSPHRASE;
+  if (cachedPassphrase) return cachedPassphrase;
+  if (!process.stdin.isTTY) return null;
+  const value = await promptSecret(chalk.gray("  Credential passphrase: "));
+  cachedPassphrase = value || null;
+  return cachedPassphrase;
+}
+
+/** Forget a passphrase that didn't decrypt, so the next read asks again instead of reusing it. */
+function rejectPassphrase(): boolean {
+  cachedPassphrase = null;
+  if (process.env.ANAGRAMA_PASSPHRASE || !process.stdin.isTTY) return false;
+  console.log(chalk.red("  Wrong passphrase."));
+  return true;
+}
+
+function credContext(profile = activeProfile): CredentialContext {
+  return { credPath: profilePaths(profile).credPath, account: profile, getPassphrase, rejectPassphrase };
+}
+
+async function getSecureToken(profile = activeProfile): Promise<string | null> {
+  if (tokenCache.has(profile)) return tokenCache.get(profile) ?? null;
+  const { token, error } = await readToken(credContext(profile));
+  if (error === "wrong-passphrase") {
+    // Not cached: the next read asks again rather than leaving the session logged out
+    cachedPassphrase = null;
+    console.error(chalk.red(process.env.ANAGRAMA_PASSPHRASE
+      ? "  ANAGRAMA_PASSPHRASE doesn't unlock the stored token."
+      : "  Wrong passphrase. The stored token stays locked."));
+    return null;
   }
+  tokenCache.set(profile, token);
+  return token;
+}
+
+async function setSecureToken(token: string, profile = activeProfile): Promise<boolean> {
+  const backend = await writeToken(credContext(profile), token);
+  tokenCache.delete(profile);
+  return backend !== null;
+}
+
+async function deleteSecureToken(profile = activeProfile): Promise<void> {
+  await deleteToken(credContext(profile));
+  tokenCache.delete(profile);
 }
 
 // Migrate plain-text tokens (from older versions) to encrypted storage
@@ -75,8 +295,8 @@ async function migrateCredentials(): Promise<void> {
     const raw = await fs.readFile(CONFIG_PATH, "utf8");
     const config = JSON.parse(raw) as StoredConfig;
     if (config.token) {
-      // Token exists in plain text config — encrypt it
-      await setSecureToken(config.token);
+      // Token exists in plain text config — encrypt it (always the default profile's)
+      await setSecureToken(config.token, DEFAULT_PROFILE);
       const { token, ...rest } = config;
       await fs.writeFile(CONFIG_PATH, JSON.stringify(rest, null, 2), "utf8");
     }
@@ -85,9 +305,18 @@ async function migrateCredentials(): Promise<void> {
   }
 }
 
-/** Clear screen + scrollback buffer so old renders don't show when scrolling up. */
+/**
+ * Clear screen + scrollback buffer so old renders don't show when scrolling up.
+ * On the game screen there's no scrollback of our own, so the player's is left alone.
+ */
 function clearScreen(): void {
-  process.stdout.write("\x1b[2J\x1b[3J\x1b[H");
+  // A screen reader would lose its place; accessible output only ever scrolls
+  if (accessibleMode) {
+    console.log();
+    return;
+  }
+  process.stdout.write(screen.isActive ? "\x1b[2J\x1b[H" : "\x1b[2J\x1b[3J\x1b[H");
+  screen.invalidate();
 }
 
 // Prevent Ctrl+C from killing the app - must use menu to exit
@@ -105,10 +334,32 @@ type StoredConfig = {
     displayName?: string | null;
   };
   updatedAt?: string;
+  sessionExpired?: boolean; // server rejected the stored token (401/403)
+  historySyncedAt?: string; // dateKey of the last server history import
   minimal?: boolean;
-  theme?: string;
+  accessible?: boolean; // screen-reader output (see applyAccessibility)
+  marks?: string;        // key of MARK_PALETTES
+  markSymbols?: boolean; // ✓ ~ · after each marked letter
+  theme?: string; // a THEMES key, or "auto"
+  autoThemes?: Partial<AutoThemes>; // what "auto" picks for dark and light
+  keymap?: string; // "default" or "vi"
+  keybindings?: KeyBindingsConfig; // per-key overrides on top of the keymap
+  activeProfile?: string; // global: profile used when --profile isn't given
 };
 
+/** Per-profile account fields. Everything else in StoredConfig is a global setting. */
+const ACCOUNT_KEYS = ["baseUrl", "apiUrl", "user", "updatedAt", "sessionExpired", "historySyncedAt"] as const;
+
+function splitAccount(config: StoredConfig): { account: Partial<StoredConfig>; settings: StoredConfig } {
+  const account: Partial<StoredConfig> = {};
+  const settings: StoredConfig = { ...config };
+  for (const key of ACCOUNT_KEYS) {
+    if (config[key] !== undefined) (account as Record<string, unknown>)[key] = config[key];
+    delete settings[key];
+  }
+  return { account, settings };
+}
+
 // ── Theme system ─────────────────────────────────────────────────────────────
 
 type ThemeColors = {
@@ -118,24 +369,41 @@ type ThemeColors = {
   dim: string;
   bg: string; // background color for boxes (empty = transparent/terminal default)
   tileFg: string; // letter tile text color (needs to contrast with accent bg)
+  basic: BasicColors;
   label: string;
-  group: "dark" | "light" | "accessibility";
+  group: "dark" | "light" | "accessibility" | "custom";
+  // Only user themes set these; the rest use the mark palette and the default gray
+  marks?: ThemeFile["marks"];
+  used?: ThemeFile["used"];
+};
+
+/** The theme on a 16-color terminal. No `bg` leaves the terminal's own background. */
+type BasicColors = {
+  accent: ForegroundColorName;
+  border: ForegroundColorName;
+  fg: ForegroundColorName;
+  dim: ForegroundColorName;
+  bg?: ForegroundColorName;
+  tileFg: ForegroundColorName;
 };
 
+const DARK_BASIC = { fg: "whiteBright", dim: "gray", tileFg: "black" } as const;
+const LIGHT_BASIC = { fg: "black", dim: "blackBright", bg: "whiteBright", tileFg: "whiteBright" } as const;
+
 const THEMES: Record<string, ThemeColors> = {
   // Dark themes
-  amber:    { accent: "#F5A623", border: "#CC6B3D", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", label: "Amber (Default)", group: "dark" },
-  ocean:    { accent: "#4FC3F7", border: "#0288D1", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", label: "Ocean", group: "dark" },
-  forest:   { accent: "#66BB6A", border: "#388E3C", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", label: "Forest", group: "dark" },
-  sunset:   { accent: "#EF5350", border: "#C62828", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", label: "Sunset", group: "dark" },
-  lavender: { accent: "#CE93D8", border: "#8E24AA", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", label: "Lavender", group: "dark" },
-  mint:     { accent: "#4DB6AC", border: "#00897B", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", label: "Mint", group: "dark" },
+  amber:    { accent: "#F5A623", border: "#CC6B3D", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", basic: { ...DARK_BASIC, accent: "yellow", border: "red" }, label: "Amber (Default)", group: "dark" },
+  ocean:    { accent: "#4FC3F7", border: "#0288D1", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", basic: { ...DARK_BASIC, accent: "cyanBright", border: "blue" }, label: "Ocean", group: "dark" },
+  forest:   { accent: "#66BB6A", border: "#388E3C", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", basic: { ...DARK_BASIC, accent: "greenBright", border: "green" }, label: "Forest", group: "dark" },
+  sunset:   { accent: "#EF5350", border: "#C62828", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", basic: { ...DARK_BASIC, accent: "redBright", border: "red" }, label: "Sunset", group: "dark" },
+  lavender: { accent: "#CE93D8", border: "#8E24AA", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", basic: { ...DARK_BASIC, accent: "magentaBright", border: "magenta" }, label: "Lavender", group: "dark" },
+  mint:     { accent: "#4DB6AC", border: "#00897B", fg: "#FFFFFF", dim: "#888888", bg: "#1a1a1a", tileFg: "#1a1a1a", basic: { ...DARK_BASIC, accent: "cyan", border: "green" }, label: "Mint", group: "dark" },
   // Light themes
-  "light":      { accent: "#D4760A", border: "#B8621A", fg: "#1a1a1a", dim: "#666666", bg: "#F5F5F0", tileFg: "#FFFFFF", label: "Light", group: "light" },
-  "light-blue": { accent: "#0277BD", border: "#01579B", fg: "#1a1a1a", dim: "#666666", bg: "#EDF2F7", tileFg: "#FFFFFF", label: "Light Blue", group: "light" },
+  "light":      { accent: "#D4760A", border: "#B8621A", fg: "#1a1a1a", dim: "#666666", bg: "#F5F5F0", tileFg: "#FFFFFF", basic: { ...LIGHT_BASIC, accent: "red", border: "red" }, label: "Light", group: "light" },
+  "light-blue": { accent: "#0277BD", border: "#01579B", fg: "#1a1a1a", dim: "#666666", bg: "#EDF2F7", tileFg: "#FFFFFF", basic: { ...LIGHT_BASIC, accent: "blue", border: "blue" }, label: "Light Blue", group: "light" },
   // Accessibility - high contrast
-  "hc-dark":  { accent: "#FFD600", border: "#FFAB00", fg: "#FFFFFF", dim: "#CCCCCC", bg: "#000000", tileFg: "#000000", label: "High Contrast Dark", group: "accessibility" },
-  "hc-light": { accent: "#0D47A1", border: "#1565C0", fg: "#000000", dim: "#444444", bg: "#FFFFFF", tileFg: "#FFFFFF", label: "High Contrast Light", group: "accessibility" },
+  "hc-dark":  { accent: "#FFD600", border: "#FFAB00", fg: "#FFFFFF", dim: "#CCCCCC", bg: "#000000", tileFg: "#000000", basic: { accent: "yellowBright", border: "yellow", fg: "whiteBright", dim: "white", bg: "black", tileFg: "black" }, label: "High Contrast Dark", group: "accessibility" },
+  "hc-light": { accent: "#0D47A1", border: "#1565C0", fg: "#000000", dim: "#444444", bg: "#FFFFFF", tileFg: "#FFFFFF", basic: { accent: "blue", border: "blue", fg: "black", dim: "blackBright", bg: "whiteBright", tileFg: "whiteBright" }, label: "High Contrast Light", group: "accessibility" },
 };
 
 let currentThemeName = "amber";
@@ -147,202 +415,482 @@ function getTheme(): ThemeColors {
 function applyTheme(name: string): void {
   if (THEMES[name]) {
     currentThemeName = name;
-    const t = THEMES[name];
-    accent = chalk.hex(t.accent);
-    fg = chalk.hex(t.fg);
-    dim = chalk.hex(t.dim);
+    accent = themeColor("accent", mono.bold);
+    fg = themeColor("fg");
+    dim = themeColor("dim");
+  }
+}
+
+/** One of a theme's colors, at the terminal's color level. */
+function themeColor(key: "accent" | "border" | "fg" | "dim" | "tileFg", plain?: ChalkInstance, t = getTheme()): ChalkInstance {
+  return color(t[key], t.basic[key], plain);
+}
+
+/** A theme color as boxen takes it: the hex value, or its name on a 16-color terminal. */
+function boxColor(key: "accent" | "border", t = getTheme()): string {
+  return colorLevel() === "16" ? t.basic[key] : t[key];
+}
+
+/** "yellow" → "bgYellow" */
+function toBg(name: ForegroundColorName): BackgroundColorName {
+  return `bg${name[0].toUpperCase()}${name.slice(1)}` as BackgroundColorName;
+}
+
+/** Files in THEMES_DIR that were skipped, for the theme picker to show. */
+let themeFileErrors: ThemeFileError[] = [];
+
+/** Add the user's themes from THEMES_DIR to THEMES, under the "Custom" group. */
+async function loadCustomThemes(): Promise<void> {
+  const { themes, errors } = await readThemeFiles(THEMES_DIR);
+  for (const [key, theme] of Object.entries(THEMES)) {
+    if (theme.group === "custom") delete THEMES[key];
   }
+  themeFileErrors = errors;
+  for (const [key, file] of themes) {
+    if (THEMES[key]) {
+      themeFileErrors.push({ file: `${key}.json`, message: "has the same name as a built-in theme" });
+      continue;
+    }
+    THEMES[key] = themeFromFile(file);
+  }
+}
+
+function themeFromFile(file: ThemeFile): ThemeColors {
+  const basic = {} as BasicColors;
+  for (const key of THEME_COLOR_KEYS) {
+    if (file[key]) basic[key] = basicFor(key, file[key]);
+  }
+  const { label, accent, border, fg, dim, bg, tileFg, marks, used } = file;
+  return { label, accent, border, fg, dim, bg, tileFg, basic: { ...basic, ...file.basic }, group: "custom", marks, used };
+}
+
+/** The 16-color pick for a theme color that doesn't name its own. */
+function basicFor(key: ThemeColorKey, hex: string): ForegroundColorName | undefined {
+  const nearest = nearestBasicColor(hex);
+  // Like the built-in dark themes, a near-black background is left to the terminal
+  return key === "bg" && nearest === "black" ? undefined : nearest;
+}
+
+function themeToFile(theme: ThemeColors): ThemeFile {
+  const { label, accent, border, fg, dim, bg, tileFg, basic, marks, used } = theme;
+  return { label, accent, border, fg, dim, bg, tileFg, basic, ...(marks ? { marks } : {}), ...(used ? { used } : {}) };
+}
+
+// "auto" follows the system's dark or light appearance, checked again each
+// time the home screen is drawn
+const AUTO_THEME = "auto";
+
+type AutoThemes = { dark: string; light: string };
+
+const DEFAULT_AUTO_THEMES: AutoThemes = { dark: "amber", light: "light" };
+
+function autoThemePair(config: { autoThemes?: Partial<AutoThemes> }): AutoThemes {
+  const pair = { ...DEFAULT_AUTO_THEMES, ...config.autoThemes };
+  return {
+    dark: THEMES[pair.dark] ? pair.dark : DEFAULT_AUTO_THEMES.dark,
+    light: THEMES[pair.light] ? pair.light : DEFAULT_AUTO_THEMES.light,
+  };
+}
+
+/**
+ * Use the theme from settings, working out which one "auto" means right now.
+ * `askTerminal` is for menus and games, which read the keyboard right after (see appearance.ts).
+ */
+async function applySavedTheme(config: { theme?: string; autoThemes?: Partial<AutoThemes> }, opts: { askTerminal?: boolean } = {}): Promise<void> {
+  if (config.theme === AUTO_THEME) {
+    applyTheme(autoThemePair(config)[await detectSystemTheme(opts)]);
+  } else if (config.theme && THEMES[config.theme]) {
+    applyTheme(config.theme);
+  }
+}
+
+// Mark palettes color the guess tiles and pick the share squares. The
+// color-blind ones swap green/yellow for orange/blue pairs that stay apart for
+// that kind of color vision; the symbol overlay works with any of them.
+type Mark = "correct" | "present" | "absent";
+
+/** A tile's colors. Without `bg`, the basic color is used at every level. */
+type TileColors = { bg?: string; basic: BackgroundColorName; text: "black" | "white" };
+
+type MarkPalette = {
+  label: string;
+  tiles: Record<Mark, TileColors>;
+  squares: Record<Mark, string>;
+};
+
+const STANDARD_SQUARES: Record<Mark, string> = { correct: "\u{1F7E9}", present: "\u{1F7E8}", absent: "⬛" };
+const ORANGE_BLUE_SQUARES: Record<Mark, string> = { correct: "\u{1F7E7}", present: "\u{1F7E6}", absent: "⬛" };
+
+const ABSENT_TILE: TileColors = { basic: "bgGray", text: "white" };
+
+const MARK_PALETTES: Record<string, MarkPalette> = {
+  standard: {
+    label: "Standard",
+    tiles: { correct: { basic: "bgGreen", text: "black" }, present: { basic: "bgYellow", text: "black" }, absent: ABSENT_TILE },
+    squares: STANDARD_SQUARES,
+  },
+  deuteranopia: {
+    label: "Deuteranopia",
+    tiles: { correct: { bg: "#F5793A", basic: "bgYellow", text: "black" }, present: { bg: "#85C0F9", basic: "bgCyan", text: "black" }, absent: ABSENT_TILE },
+    squares: ORANGE_BLUE_SQUARES,
+  },
+  protanopia: {
+    label: "Protanopia",
+    tiles: { correct: { bg: "#FFB000", basic: "bgYellowBright", text: "black" }, present: { bg: "#648FFF", basic: "bgBlue", text: "white" }, absent: ABSENT_TILE },
+    squares: ORANGE_BLUE_SQUARES,
+  },
+  tritanopia: {
+    label: "Tritanopia",
+    tiles: { correct: { bg: "#E8502A", basic: "bgRed", text: "white" }, present: { bg: "#0072B2", basic: "bgBlue", text: "white" }, absent: ABSENT_TILE },
+    squares: ORANGE_BLUE_SQUARES,
+  },
+};
+
+const MARK_SYMBOLS: Record<Mark, string> = { correct: "✓", present: "~", absent: "·" };
+
+let currentMarkPalette = "standard";
+let markSymbols = false;
+
+function getMarkPalette(): MarkPalette {
+  return MARK_PALETTES[currentMarkPalette] || MARK_PALETTES.standard;
+}
+
+/** Use the mark palette and symbol overlay from settings. */
+function applyMarkStyle(config: { marks?: string; markSymbols?: boolean }): void {
+  currentMarkPalette = config.marks && MARK_PALETTES[config.marks] ? config.marks : "standard";
+  markSymbols = !!config.markSymbols;
 }
 
 /** Wrap a line in the theme's background color if one is set (for light themes). */
-function bgLine(text: string): string {
-  const t = getTheme();
-  if (!t.bg) return text;
-  return chalk.bgHex(t.bg)(text);
+function bgLine(text: string, t = getTheme()): string {
+  if (!t.bg || (colorLevel() === "16" && !t.basic.bg)) return text;
+  return bgColor(t.bg, toBg(t.basic.bg || "black"))(text);
 }
 
 /** Get boxen options for current theme (borderColor + optional backgroundColor). */
-function boxenTheme(): { borderColor: string; backgroundColor?: string } {
-  const t = getTheme();
-  const opts: { borderColor: string; backgroundColor?: string } = { borderColor: t.border };
-  if (t.bg) opts.backgroundColor = t.bg;
+function boxenTheme(t = getTheme()): { borderColor: string; backgroundColor?: string } {
+  const opts: { borderColor: string; backgroundColor?: string } = { borderColor: boxColor("border", t) };
+  if (colorLevel() === "16") {
+    if (t.basic.bg) opts.backgroundColor = t.basic.bg;
+  } else if (t.bg) {
+    opts.backgroundColor = t.bg;
+  }
   return opts;
 }
 
-/** Detect system dark/light mode from env vars or macOS settings. */
-async function detectSystemTheme(): Promise<"dark" | "light"> {
-  // COLORFGBG is set by many terminals (iTerm2, xterm, etc.)
-  const colorfgbg = process.env.COLORFGBG;
-  if (colorfgbg) {
-    const parts = colorfgbg.split(";");
-    const bg = parseInt(parts[parts.length - 1], 10);
-    if (!isNaN(bg)) return bg > 8 ? "light" : "dark";
-  }
+type TileStyle = "active" | "used" | Mark;
 
-  // macOS: check system appearance
-  if (process.platform === "darwin") {
-    try {
-      return await new Promise((resolve) => {
-        execFile("defaults", ["read", "-g", "AppleInterfaceStyle"], { timeout: 1000 }, (err, stdout) => {
-          if (stdout?.trim().toLowerCase() === "dark") {
-            resolve("dark");
-          } else {
-            resolve("light"); // No AppleInterfaceStyle = light mode
-          }
-        });
-      });
-    } catch {
-      // Fall through
-    }
+/** Black or white, whichever reads better on `hex`. */
+function contrastText(hex: string): "black" | "white" {
+  const value = parseInt(hex.slice(1), 16);
+  const [r, g, b] = [16, 8, 0].map((shift) => (value >> shift) & 0xff);
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? "black" : "white";
+}
+
+// Without color, tiles are told apart by style alone
+const MONO_TILES: Record<TileStyle, ChalkInstance> = {
+  active: mono.inverse.bold,
+  used: mono.dim,
+  correct: mono.inverse.bold,
+  present: mono.underline,
+  absent: mono,
+};
+
+/** Every letter tile and guess mark is drawn here, for the terminal's color level. */
+function renderTile(text: string, style: TileStyle, t = getTheme()): string {
+  if (colorLevel() === "none") return MONO_TILES[style](text);
+  if (style === "active") {
+    return bgColor(t.accent, toBg(t.basic.accent))(themeColor("tileFg", mono, t).bold(text));
   }
+  if (style === "used") return bgColor(t.used?.bg || "#333333", "bgBlack")(color(t.used?.fg || "#555555", "gray")(text));
+  // A theme's own mark colors give way to a color-blind palette
+  const custom = currentMarkPalette === "standard" && t.marks?.[style];
+  if (custom && colorLevel() !== "16") return chalk.bgHex(custom)[contrastText(custom)](text);
+  const c = getMarkPalette().tiles[style];
+  const bg = c.bg && colorLevel() !== "16" ? chalk.bgHex(c.bg) : chalk[c.basic];
+  return bg[c.text](text);
+}
 
-  // Windows: check registry for system theme (AppsUseLightTheme = 0 means dark)
-  if (process.platform === "win32") {
-    try {
-      return await new Promise((resolve) => {
-        execFile("reg", [
-          "query",
-          "HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Themes\\Personalize",
-          "/v", "AppsUseLightTheme",
-        ], { shell: true, timeout: 1000 }, (err, stdout) => {
-          if (err || !stdout) { resolve("dark"); return; }
-          // Output contains "0x0" for dark, "0x1" for light
-          resolve(stdout.includes("0x0") ? "dark" : "light");
-        });
-      });
-    } catch {
-      // Fall through
+// ── Accessible output ───────────────────────────────────────────────────────
+// `--accessible` (or the setting) is for screen readers. Everything is printed
+// once, top to bottom, as plain text: no boxes, colors, tiles, spinners, cursor
+// movement or screen clears, and game boards are described in sentences.
+
+let accessibleMode = false;
+let accessibleFlag = false; // --accessible for this run, whatever the setting says
+
+/** Turn accessible output on or off from the flag and the saved setting. */
+function applyAccessibility(config: { accessible?: boolean }): void {
+  accessibleMode = accessibleFlag || !!config.accessible;
+  applyColors();
+}
+
+const TERMINAL_COLORS = detectTerminalColors();
+
+/** Pick the color level for this run (none in accessible mode) and redo the theme's colors for it. */
+function applyColors(): void {
+  if (accessibleMode) applyColorLevel("none", false);
+  else applyColorLevel(TERMINAL_COLORS.level, TERMINAL_COLORS.styles);
+  applyTheme(currentThemeName);
+}
+
+/** boxen, or in accessible mode the title followed by the box's lines. */
+function box(text: string, options: BoxenOptions = {}): string {
+  if (!accessibleMode) return boxen(text, options);
+  const title = typeof options.title === "string" ? options.title.trim() : "";
+  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
+  return (title ? [title, ...lines] : lines).join("\n");
+}
+
+type Choice<T> = { name: string; value: T; description?: string; disabled?: boolean | string };
+
+/** select, or in accessible mode a numbered list answered by typing a number. */
+async function choose<T>(
+  config: { message: string; choices: Choice<T>[]; default?: T; pageSize?: number },
+  context?: { signal?: AbortSignal },
+): Promise<T> {
+  if (!accessibleMode) return select(config, context);
+
+  const choices = config.choices.filter((c) => !c.disabled);
+  console.log(config.message);
+  choices.forEach((c, i) => console.log(`${i + 1}. ${c.name.trim()}`));
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    while (true) {
+      const answer = (await rl.question(`Choose 1 to ${choices.length}: `)).trim();
+      if (!answer && config.default !== undefined) return config.default;
+      const n = Number(answer);
+      if (Number.isInteger(n) && n >= 1 && n <= choices.length) return choices[n - 1].value;
+      const byName = choices.find((c) => c.name.trim().toLowerCase() === answer.toLowerCase());
+      if (byName) return byName.value;
+      console.log(`Enter a number from 1 to ${choices.length}.`);
     }
+  } finally {
+    rl.close();
   }
+}
 
-  return "dark"; // Default assumption
+/** "S correct, T present, O absent" */
+function describeMarks(guess: string, marks: string[] | null | undefined): string {
+  return guess
+    .toUpperCase()
+    .split("")
+    .map((ch, idx) => (marks?.[idx] ? `${ch} ${marks[idx]}` : ch))
+    .join(", ");
 }
 
-type ApiResponse<T> = { status: number; data: T };
+function describeLives(livesLeft: number, maxLives = 5): string {
+  return `${livesLeft} of ${maxLives} ${maxLives === 1 ? "life" : "lives"} left.`;
+}
 
-// ── Stats tracking ───────────────────────────────────────────────────────────
+/** A previous guess as a line of the board: colored tiles, or a sentence in accessible mode. */
+function guessLine(index: number, guess: string, marks: string[] | null | undefined): string {
+  if (accessibleMode) return `Guess ${index + 1}: ${describeMarks(guess, marks)}.`;
+  return `    ${renderMarks(guess, marks)}`;
+}
 
-type GameStats = {
-  gamesPlayed: number;
-  gamesWon: number;
-  currentStreak: number;
-  maxStreak: number;
-  guessDistribution: number[]; // index 0 = solved in 1, index 4 = solved in 5
-  lastPlayedDate: string;
-  lastPlayedWon: boolean;
-  lastPlayedAttempts: number;
-};
+// ── Stats tracking ───────────────────────────────────────────────────────────
+// Every finished game is appended to the profile's history log (history.ts);
+// the stats below are always computed from it.
 
-const DEFAULT_STATS: GameStats = {
-  gamesPlayed: 0,
-  gamesWon: 0,
-  currentStreak: 0,
-  maxStreak: 0,
-  guessDistribution: [0, 0, 0, 0, 0],
-  lastPlayedDate: "",
-  lastPlayedWon: false,
-  lastPlayedAttempts: 0,
-};
+const migratedProfiles = new Set<string>();
 
-async function readStats(): Promise<GameStats> {
+/** One-time import of the old stats.json / defineagram-stats.json into the history log. */
+async function ensureHistoryMigrated(): Promise<void> {
+  if (migratedProfiles.has(activeProfile)) return;
+  migratedProfiles.add(activeProfile);
+  const { historyPath, statsPath, defineagramStatsPath } = profilePaths();
   try {
-    const raw = await fs.readFile(STATS_PATH, "utf8");
-    return { ...DEFAULT_STATS, ...JSON.parse(raw) };
+    await fs.access(historyPath);
+    return; // Already on the history log
   } catch {
-    return { ...DEFAULT_STATS };
+    // No log yet — import whatever the old files have
   }
+  const legacy = await readJsonFile<GameStats>(statsPath);
+  const legacyDefineagram = await readJsonFile<DefineagramStats>(defineagramStatsPath);
+  await appendHistory(historyPath, migrateLegacyStats(
+    legacy ? { ...DEFAULT_STATS, ...legacy } : null,
+    legacyDefineagram ? { ...DEFAULT_DEFINEAGRAM_STATS, ...legacyDefineagram } : null,
+  ));
 }
 
-async function writeStats(stats: GameStats): Promise<void> {
-  await fs.mkdir(CONFIG_DIR, { recursive: true });
-  await fs.writeFile(STATS_PATH, JSON.stringify(stats, null, 2), "utf8");
-}
-
-async function updateStats(won: boolean, attempts: number, dateKey: string): Promise<GameStats> {
-  const stats = await readStats();
-  if (stats.lastPlayedDate === dateKey) return stats; // Already recorded
-  stats.gamesPlayed++;
-  stats.lastPlayedDate = dateKey;
-  stats.lastPlayedWon = won;
-  stats.lastPlayedAttempts = attempts;
-  if (won) {
-    stats.gamesWon++;
-    stats.currentStreak++;
-    stats.maxStreak = Math.max(stats.maxStreak, stats.currentStreak);
-    const idx = Math.min(attempts - 1, 4);
-    stats.guessDistribution[idx] = (stats.guessDistribution[idx] || 0) + 1;
-  } else {
-    stats.currentStreak = 0;
-  }
-  await writeStats(stats);
-  return stats;
+async function loadHistory(): Promise<HistoryEntry[]> {
+  await ensureHistoryMigrated();
+  return readHistory(profilePaths().historyPath);
+}
+
+/**
+ * Append a finished game to the log. A day that's already recorded is left
+ * alone, unless `upgradeWin` is set and this is a win over a recorded loss
+ * (e.g. the puzzle was finished on the website afterwards).
+ */
+async function recordGame(record: NewGameRecord, opts: { upgradeWin?: boolean } = {}): Promise<HistoryEntry[]> {
+  const entries = await loadHistory();
+  const existing = findRecord(entries, record.game, record.dateKey);
+  if (existing && !(opts.upgradeWin && record.won && !existing.won)) return entries;
+  const entry: GameRecord = { kind: "game", ...record, recordedAt: new Date().toISOString() };
+  await appendHistory(profilePaths().historyPath, [entry]);
+  return [...entries, entry];
+}
+
+async function readStats(): Promise<GameStats> {
+  return computeAnagramaStats(await loadHistory());
 }
 
 // ── Defineagram stats ────────────────────────────────────────────────────────
 
-const DEFINEAGRAM_STATS_PATH = path.join(CONFIG_DIR, "defineagram-stats.json");
+async function readDefineagramStats(): Promise<DefineagramStats> {
+  return computeDefineagramStats(await loadHistory());
+}
 
-type DefineagramStats = {
-  gamesPlayed: number;
-  gamesWon: number;
-  currentStreak: number;
-  maxStreak: number;
-  bestTimeMs: number | null;
-  avgTimeMs: number | null;
-  totalTimeMs: number;
-  lastPlayedDate: string;
-  lastPlayedWon: boolean;
-  lastPlayedTimeMs: number;
-};
+/** History record for an Anagrama game finished elsewhere (website or an earlier run). */
+function anagramaRecordFromSession(dateKey: string, session: NonNullable<PuzzleResponse["session"]>): NewGameRecord {
+  const guesses = session.guesses || [];
+  const attempts = session.attempts || 0;
+  return {
+    game: "anagrama",
+    dateKey,
+    won: !!session.win,
+    guesses: guesses.map((g) => ({ word: g.word, marks: g.marks })),
+    hintsUsed: session.hintsUsed || 0,
+    altFound: guesses.filter((g) => g.isAlt).length,
+    attempts,
+    livesLeft: Math.max(0, 5 - attempts),
+    source: "web",
+  };
+}
 
-const DEFAULT_DEFINEAGRAM_STATS: DefineagramStats = {
-  gamesPlayed: 0,
-  gamesWon: 0,
-  currentStreak: 0,
-  maxStreak: 0,
-  bestTimeMs: null,
-  avgTimeMs: null,
-  totalTimeMs: 0,
-  lastPlayedDate: "",
-  lastPlayedWon: false,
-  lastPlayedTimeMs: 0,
-};
+function defineagramRecordFromSession(dateKey: string, session: DefineagramSession): NewGameRecord {
+  return {
+    game: "defineagram",
+    dateKey,
+    won: !!(session.completed && !session.revealed),
+    guesses: [],
+    hintsUsed: session.hintsUsed || 0,
+    altFound: 0,
+    timeMs: session.totalTimeMs || session.timeMs || 0,
+    penaltyMs: session.penaltyMs || 0,
+    wrongGuesses: session.wrongGuesses || 0,
+    source: "web",
+  };
+}
 
-async function readDefineagramStats(): Promise<DefineagramStats> {
+function recordFromHistoryItem(item: HistoryItem): NewGameRecord | null {
+  if (!item.dateKey) return null;
+  if (item.game === "anagrama") {
+    const record = anagramaRecordFromSession(item.dateKey, {
+      win: item.won,
+      attempts: item.attempts,
+      hintsUsed: item.hintsUsed,
+      guesses: item.guesses,
+    });
+    return item.archive ? { ...record, archive: true } : record;
+  }
+  if (item.game === "defineagram") {
+    return defineagramRecordFromSession(item.dateKey, {
+      completed: true,
+      revealed: item.revealed || !item.won,
+      totalTimeMs: item.timeMs,
+      penaltyMs: item.penaltyMs,
+      wrongGuesses: item.wrongGuesses,
+      hintsUsed: item.hintsUsed,
+    });
+  }
+  return null;
+}
+
+// ── Server backfill ──────────────────────────────────────────────────────────
+
+const HISTORY_SYNC_MAX_PAGES = 100;
+const historySyncedProfiles = new Set<string>();
+
+/**
+ * Page through the server's record of finished games (optionally only those
+ * on or after `since`) and merge them into the local log. Resolves to null
+ * when the server doesn't offer a history endpoint.
+ */
+async function syncHistoryFromServer(
+  config: StoredConfig,
+  client: AnagramaClient,
+  opts: { since?: string; beforePrompt?: () => void } = {},
+): Promise<MergeResult | null> {
+  const remote: NewGameRecord[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < HISTORY_SYNC_MAX_PAGES; page++) {
+    const res = await withReauth(config, client, () => client.getHistory({ cursor, since: opts.since }), {
+      beforePrompt: opts.beforePrompt,
+    });
+    if (res.status === 404) return null;
+    if (res.status >= 400) throw new Error(res.data.error || `History request failed (${res.status})`);
+    for (const item of res.data.items || []) {
+      const record = recordFromHistoryItem(item);
+      if (record) remote.push(record);
+    }
+    if (!res.data.nextCursor) break;
+    cursor = res.data.nextCursor;
+  }
+
+  const result = mergeRemoteRecords(await loadHistory(), remote);
+  await appendHistory(profilePaths().historyPath, result.records);
+  await writeConfig({ ...config, historySyncedAt: localDateKey() });
+  config.historySyncedAt = localDateKey();
+  return result;
+}
+
+function describeMerge(result: MergeResult): string {
+  if (result.added === 0 && result.updated === 0) return "Already up to date.";
+  const parts: string[] = [];
+  if (result.added > 0) parts.push(`${result.added} new day${result.added === 1 ? "" : "s"}`);
+  if (result.updated > 0) parts.push(`${result.updated} updated`);
+  return `Imported ${parts.join(", ")}.`;
+}
+
+/** `anagrama stats sync`: pull every finished game from the server. */
+async function doStatsSync(config: StoredConfig): Promise<boolean> {
+  if (!config.token) {
+    console.log(chalk.yellow("  Not logged in. Run `anagrama login` first."));
+    return false;
+  }
+  const client = createClient(config);
+  const spinner = new ColorSpinner("Syncing game history...");
+  spinner.start();
   try {
-    const raw = await fs.readFile(DEFINEAGRAM_STATS_PATH, "utf8");
-    return { ...DEFAULT_DEFINEAGRAM_STATS, ...JSON.parse(raw) };
-  } catch {
-    return { ...DEFAULT_DEFINEAGRAM_STATS };
+    const result = await syncHistoryFromServer(config, client, { beforePrompt: () => spinner.stop() });
+    if (!result) {
+      spinner.stop(chalk.yellow("  This server doesn't provide game history yet."));
+      return false;
+    }
+    spinner.stop(chalk.green(`  ${describeMerge(result)}`));
+    return true;
+  } catch (err) {
+    spinner.stop();
+    printApiError(err, "Couldn't sync game history.");
+    if (!isApiError(err) && err instanceof Error) console.log(chalk.yellow(`  ${err.message}`));
+    return false;
   }
 }
 
-async function writeDefineagramStats(stats: DefineagramStats): Promise<void> {
-  await fs.mkdir(CONFIG_DIR, { recursive: true });
-  await fs.writeFile(DEFINEAGRAM_STATS_PATH, JSON.stringify(stats, null, 2), "utf8");
-}
-
-async function updateDefineagramStats(won: boolean, totalTimeMs: number, dateKey: string): Promise<DefineagramStats> {
-  const stats = await readDefineagramStats();
-  if (stats.lastPlayedDate === dateKey) return stats;
-  stats.gamesPlayed++;
-  stats.lastPlayedDate = dateKey;
-  stats.lastPlayedWon = won;
-  stats.lastPlayedTimeMs = totalTimeMs;
-  if (won) {
-    stats.gamesWon++;
-    stats.currentStreak++;
-    stats.maxStreak = Math.max(stats.maxStreak, stats.currentStreak);
-    stats.totalTimeMs += totalTimeMs;
-    if (stats.bestTimeMs === null || totalTimeMs < stats.bestTimeMs) {
-      stats.bestTimeMs = totalTimeMs;
-    }
-    stats.avgTimeMs = Math.round(stats.totalTimeMs / stats.gamesWon);
-  } else {
-    stats.currentStreak = 0;
+/**
+ * Once per run: import the full server history on first use of a profile,
+ * afterwards just the days since the last import. Failures are left for the
+ * next launch (or `anagrama stats sync`).
+ */
+async function autoSyncHistory(config: StoredConfig, client: AnagramaClient): Promise<void> {
+  if (historySyncedProfiles.has(activeProfile)) return;
+  historySyncedProfiles.add(activeProfile);
+  const firstRun = !config.historySyncedAt;
+  const spinner = firstRun ? new ColorSpinner("Importing your game history...") : null;
+  spinner?.start();
+  try {
+    const result = await syncHistoryFromServer(config, client, {
+      since: config.historySyncedAt,
+      beforePrompt: () => spinner?.stop(),
+    });
+    spinner?.stop(result && firstRun ? chalk.green(`  ${describeMerge(result)}`) : undefined);
+  } catch {
+    spinner?.stop();
   }
-  await writeDefineagramStats(stats);
-  return stats;
 }
 
 function formatTimeMs(ms: number): string {
@@ -352,6 +900,21 @@ function formatTimeMs(ms: number): string {
   return min > 0 ? `${min}m ${sec}s` : `${sec}s`;
 }
 
+/** "Time 1m 20s, including 15s of penalties for 2 wrong guesses and hints." */
+function describeDefineagramTime(elapsedMs: number, wrongGuesses: number, penaltyMs: number): string {
+  const total = `Time ${formatTimeMs(elapsedMs + penaltyMs)}`;
+  if (penaltyMs <= 0) return `${total}.`;
+  const wrong = wrongGuesses > 0 ? ` for ${wrongGuesses} wrong ${wrongGuesses === 1 ? "guess" : "guesses"}` : "";
+  const hints = penaltyMs > wrongGuesses * 5000 ? (wrong ? " and hints" : " for hints") : "";
+  return `${total}, including ${formatTimeMs(penaltyMs)} of penalties${wrong}${hints}.`;
+}
+
+/** Time the Defineagram clock has been stopped with /pause, including a pause still going. */
+function defineagramPausedMs(session: DefineagramSession | undefined, now = Date.now()): number {
+  const open = session?.pausedAt ? Math.max(0, now - new Date(session.pausedAt).getTime()) : 0;
+  return (session?.pausedMs || 0) + open;
+}
+
 function formatTimeMsShort(ms: number): string {
   const totalSec = Math.floor(ms / 1000);
   const min = Math.floor(totalSec / 60);
@@ -366,15 +929,12 @@ function generateShareText(
   guessHistory: { word: string; marks: string[] }[],
   won: boolean,
   maxLives: number,
+  squares = getMarkPalette().squares,
 ): string {
   const attemptsText = won ? `${guessHistory.length}/${maxLives}` : `X/${maxLives}`;
   let text = `Anagrama ${dateKey} ${attemptsText}\n\n`;
   for (const g of guessHistory) {
-    text += g.marks.map((m) => {
-      if (m === "correct") return "\u{1F7E9}";
-      if (m === "present") return "\u{1F7E8}";
-      return "\u2B1B";
-    }).join("") + "\n";
+    text += g.marks.map((m) => squares[m as Mark] || squares.absent).join("") + "\n";
   }
   text += "\nplayanagrama.com";
   return text;
@@ -404,7 +964,7 @@ async function copyToClipboard(text: string): Promise<boolean> {
   });
 }
 
-function getNextPuzzleCountdown(): string {
+function msUntilNextPuzzle(): number {
   // Puzzle resets at midnight ET
   const now = new Date();
   const etStr = now.toLocaleString("en-US", { timeZone: "America/New_York" });
@@ -412,7 +972,11 @@ function getNextPuzzleCountdown(): string {
   const tomorrow = new Date(et);
   tomorrow.setDate(tomorrow.getDate() + 1);
   tomorrow.setHours(0, 0, 0, 0);
-  const diff = tomorrow.getTime() - et.getTime();
+  return tomorrow.getTime() - et.getTime();
+}
+
+function getNextPuzzleCountdown(): string {
+  const diff = msUntilNextPuzzle();
   const hours = Math.floor(diff / 3_600_000);
   const minutes = Math.floor((diff % 3_600_000) / 60_000);
   return `${hours}h ${minutes}m`;
@@ -437,21 +1001,56 @@ function getRandomWelcome(name: string): string {
   return WELCOME_MESSAGES[idx](name);
 }
 
-async function readConfig(): Promise<StoredConfig> {
+async function readJsonFile<T>(filePath: string): Promise<T | null> {
   try {
-    const raw = await fs.readFile(CONFIG_PATH, "utf8");
-    const config = JSON.parse(raw) as StoredConfig;
-    // Get token from secure storage
-    const token = await getSecureToken();
-    return { ...config, token: token || undefined };
+    return JSON.parse(await fs.readFile(filePath, "utf8")) as T;
   } catch {
-    // Even if config file doesn't exist, try to get token from keychain
-    const token = await getSecureToken();
-    return { token: token || undefined };
+    return null;
+  }
+}
+
+// ANAGRAMA_TOKEN overrides the stored credential for CI and scripts. It is never
+// written to disk, and neither is the account info learned from it.
+const ENV_TOKEN = process.env.ANAGRAMA_TOKEN?.trim() || undefined;
+let envTokenUser: StoredConfig["user"];
+let envTokenExpired: boolean | undefined;
+
+/** Config as stored on disk for the active profile (no token). */
+async function readStoredConfig(): Promise<StoredConfig> {
+  const global = (await readJsonFile<StoredConfig>(CONFIG_PATH)) || {};
+  if (activeProfile === DEFAULT_PROFILE) {
+    return global;
+  }
+  // Named profile: global settings + this profile's account info
+  const { settings } = splitAccount(global);
+  const account = (await readJsonFile<Partial<StoredConfig>>(profilePaths().accountPath)) || {};
+  return { ...settings, ...splitAccount(account).account };
+}
+
+async function readConfig(): Promise<StoredConfig> {
+  const stored = await readStoredConfig();
+  if (ENV_SITE_URL) stored.baseUrl = ENV_SITE_URL;
+  if (ENV_API_URL) stored.apiUrl = ENV_API_URL;
+  if (ENV_TOKEN) {
+    return { ...stored, token: ENV_TOKEN, user: envTokenUser, sessionExpired: envTokenExpired };
   }
+  // Get token from secure storage
+  const token = (await getSecureToken()) || undefined;
+  return { ...stored, token };
 }
 
 async function writeConfig(next: StoredConfig): Promise<void> {
+  if (ENV_TOKEN && next.token === ENV_TOKEN) {
+    envTokenUser = next.user;
+    envTokenExpired = next.sessionExpired;
+    const onDisk = await readStoredConfig();
+    next = { ...next, token: undefined, user: onDisk.user, updatedAt: onDisk.updatedAt, sessionExpired: onDisk.sessionExpired };
+  }
+  if (ENV_SITE_URL || ENV_API_URL) {
+    const onDisk = await readStoredConfig();
+    if (ENV_SITE_URL && next.baseUrl === ENV_SITE_URL) next = { ...next, baseUrl: onDisk.baseUrl };
+    if (ENV_API_URL && next.apiUrl === ENV_API_URL) next = { ...next, apiUrl: onDisk.apiUrl };
+  }
   // Store token securely in system keychain
   if (next.token) {
     await setSecureToken(next.token);
@@ -459,7 +1058,28 @@ async function writeConfig(next: StoredConfig): Promise<void> {
   // Write non-sensitive data to JSON (without token)
   const { token, ...configWithoutToken } = next;
   await fs.mkdir(CONFIG_DIR, { recursive: true });
-  await fs.writeFile(CONFIG_PATH, JSON.stringify(configWithoutToken, null, 2), "utf8");
+  if (activeProfile === DEFAULT_PROFILE) {
+    await fs.writeFile(CONFIG_PATH, JSON.stringify(configWithoutToken, null, 2), "utf8");
+    return;
+  }
+  // Named profile: settings go to cli.json (keeping the default profile's account
+  // fields intact), account fields go to the profile's own file
+  const { account, settings } = splitAccount(configWithoutToken);
+  const existing = (await readJsonFile<StoredConfig>(CONFIG_PATH)) || {};
+  const { account: defaultAccount } = splitAccount(existing);
+  const { dir, accountPath } = profilePaths();
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(CONFIG_PATH, JSON.stringify({ ...defaultAccount, ...settings }, null, 2), "utf8");
+  await fs.writeFile(accountPath, JSON.stringify(account, null, 2), "utf8");
+}
+
+/** Persist which profile is used when --profile isn't passed. */
+async function setActiveProfile(name: string): Promise<void> {
+  const existing = (await readJsonFile<StoredConfig>(CONFIG_PATH)) || {};
+  existing.activeProfile = name === DEFAULT_PROFILE ? undefined : name;
+  await fs.mkdir(CONFIG_DIR, { recursive: true });
+  await fs.writeFile(CONFIG_PATH, JSON.stringify(existing, null, 2), "utf8");
+  activeProfile = name;
 }
 
 function normalizeBaseUrl(url: string): string {
@@ -616,7 +1236,7 @@ async function doManualUpdate(): Promise<"installed" | "up-to-date" | "skipped"
 
     spinner.stop(chalk.cyan(`  Update available: v${CURRENT_VERSION} → v${latest}`));
 
-    const confirm = await select({
+    const confirm = await choose({
       message: "Install update now?",
       choices: [
         { name: "Yes, install", value: true },
@@ -650,11 +1270,36 @@ async function doManualUpdate(): Promise<"installed" | "up-to-date" | "skipped"
 // ── Settings ─────────────────────────────────────────────────────────────────
 
 /** Interactive theme picker with live preview. Arrow keys browse, Enter confirms, Esc cancels. */
-async function doThemePicker(): Promise<string | null> {
-  const themeKeys = Object.keys(THEMES);
-  let idx = themeKeys.indexOf(currentThemeName);
+const THEME_GROUP_LABELS: Record<ThemeColors["group"], string> = {
+  dark: "Dark",
+  light: "Light",
+  accessibility: "Accessibility",
+  custom: "Custom",
+};
+
+/** "Auto: Amber (Default) / Light" or the theme's label. */
+function themeSettingLabel(config: StoredConfig): string {
+  if (config.theme !== AUTO_THEME) return THEMES[config.theme]?.label || THEMES[currentThemeName].label;
+  const pair = autoThemePair(config);
+  return `Auto: ${THEMES[pair.dark].label} / ${THEMES[pair.light].label}`;
+}
+
+/** Pick a theme, or AUTO_THEME. */
+async function doThemePicker(config: StoredConfig): Promise<string | null> {
+  const themeKeys = [AUTO_THEME, ...Object.keys(THEMES)];
+  let idx = themeKeys.indexOf(config.theme === AUTO_THEME ? AUTO_THEME : currentThemeName);
   if (idx === -1) idx = 0;
   const original = currentThemeName;
+  // What "auto" shows right now, for its preview
+  const autoTheme = autoThemePair(config)[await detectSystemTheme({ askTerminal: true })];
+  const autoLabel = themeSettingLabel({ ...config, theme: AUTO_THEME });
+
+  // The live preview redraws in place; a plain list reads better
+  if (accessibleMode) {
+    for (const err of themeFileErrors) console.log(`Skipped ${err.file}: ${err.message}`);
+    const choices = themeKeys.map((key) => ({ name: key === AUTO_THEME ? autoLabel : THEMES[key].label, value: key }));
+    return choose({ message: "Theme", choices: [...choices, { name: "Cancel", value: null }], default: themeKeys[idx] });
+  }
 
   return new Promise((resolve) => {
     const stdin = process.stdin;
@@ -664,12 +1309,12 @@ async function doThemePicker(): Promise<string | null> {
 
     const render = () => {
       const key = themeKeys[idx];
-      const theme = THEMES[key];
-      const previewAccent = chalk.hex(theme.accent);
-      const previewBorder = chalk.hex(theme.border);
-      const previewFg = chalk.hex(theme.fg);
-      const previewDim = chalk.hex(theme.dim);
-      const previewBgWrap = (text: string) => theme.bg ? chalk.bgHex(theme.bg)(text) : text;
+      const theme = THEMES[key === AUTO_THEME ? autoTheme : key];
+      const previewAccent = themeColor("accent", mono.bold, theme);
+      const previewBorder = themeColor("border", mono, theme);
+      const previewFg = themeColor("fg", mono, theme);
+      const previewDim = themeColor("dim", mono, theme);
+      const previewBgWrap = (text: string) => bgLine(text, theme);
 
       clearScreen();
       console.log();
@@ -679,23 +1324,25 @@ async function doThemePicker(): Promise<string | null> {
       let lastGroup = "";
       for (let i = 0; i < themeKeys.length; i++) {
         const k = themeKeys[i];
-        const t = THEMES[k];
-        // Show group header
-        if (t.group !== lastGroup) {
+        const t = THEMES[k === AUTO_THEME ? autoTheme : k];
+        const label = k === AUTO_THEME ? autoLabel : t.label;
+        // Show group header (Auto goes above them all)
+        if (k !== AUTO_THEME && t.group !== lastGroup) {
           lastGroup = t.group;
-          const groupLabel = t.group === "dark" ? "Dark" : t.group === "light" ? "Light" : "Accessibility";
+          const groupLabel = THEME_GROUP_LABELS[t.group];
           console.log();
           console.log(previewBgWrap(previewDim(`    ${groupLabel}  `)));
         }
-        const dot = chalk.hex(t.accent)("●");
+        const dot = themeColor("accent", mono, t)("●");
         if (i === idx) {
-          const label = chalk.bgHex(theme.bg).hex(theme.fg).bold(` ${t.label} `);
-          console.log(`  ${chalk.hex(t.accent)("▸")} ${dot} ${label}`);
+          console.log(`  ${themeColor("accent", mono, t)("▸")} ${dot} ${bgLine(previewFg.bold(` ${label} `), theme)}`);
         } else {
-          const label = chalk.bgHex(t.bg).hex(t.dim)(` ${t.label} `);
-          console.log(`    ${dot} ${label}`);
+          console.log(`    ${dot} ${bgLine(themeColor("dim", mono, t)(` ${label} `), t)}`);
         }
       }
+      for (const err of themeFileErrors) {
+        console.log(previewDim(`    Skipped ${err.file}: ${err.message}`));
+      }
 
       console.log();
       console.log(previewBgWrap(previewBorder("  ──") + previewAccent.bold(" Preview ") + previewBorder("─".repeat(35))));
@@ -706,9 +1353,7 @@ async function doThemePicker(): Promise<string | null> {
       console.log();
 
       // Preview: sample letter tiles
-      const tiles = ["A", "N", "A"].map(ch =>
-        chalk.bgHex(theme.accent).hex(theme.tileFg).bold(` ${ch} `)
-      ).join("  ");
+      const tiles = ["A", "N", "A"].map(ch => renderTile(` ${ch} `, "active", theme)).join("  ");
       console.log(`    ${tiles}`);
       console.log();
 
@@ -717,9 +1362,8 @@ async function doThemePicker(): Promise<string | null> {
       console.log();
 
       // Preview: sample box
-      const sampleBox = boxen(previewFg("Find the target word"), {
-        borderColor: theme.border,
-        ...(theme.bg ? { backgroundColor: theme.bg } : {}),
+      const sampleBox = box(previewFg("Find the target word"), {
+        ...boxenTheme(theme),
         borderStyle: "round",
         padding: { left: 1, right: 1, top: 0, bottom: 0 },
       });
@@ -763,37 +1407,291 @@ async function doThemePicker(): Promise<string | null> {
   });
 }
 
-async function doSettings(config: StoredConfig): Promise<void> {
-  let inSettings = true;
+// ── Theme editor ─────────────────────────────────────────────────────────────
+// Settings → Edit theme starts from the current theme and saves to THEMES_DIR,
+// the same as a hand-written theme file, so it's listed under "Custom".
+
+type EditorField = {
+  label: string;
+  get: (t: ThemeColors) => string;
+  set: (t: ThemeColors, hex: string) => void;
+  /** Can be reset to "not set" (the terminal's background, the default tile colors). */
+  optional: boolean;
+  /** Where darker/lighter starts from when the color isn't set. */
+  fallback: string;
+};
+
+const EDITOR_LABELS: Record<ThemeColorKey, string> = {
+  accent: "Accent",
+  border: "Border",
+  fg: "Text",
+  dim: "Dim text",
+  bg: "Background",
+  tileFg: "Tile letters",
+};
+
+const DEFAULT_MARK_HEX: Record<Mark, string> = { correct: "#6AAA64", present: "#C9B458", absent: "#787C7E" };
+
+const EDITOR_FIELDS: EditorField[] = [
+  ...THEME_COLOR_KEYS.map((key): EditorField => ({
+    label: EDITOR_LABELS[key],
+    get: (t) => t[key],
+    set: (t, hex) => {
+      t[key] = hex;
+      const basic = hex ? basicFor(key, hex) : undefined;
+      if (basic) t.basic[key] = basic;
+      else delete t.basic[key];
+    },
+    optional: key === "bg",
+    fallback: key === "bg" ? "#1A1A1A" : "#888888",
+  })),
+  ...MARK_KEYS.map((mark): EditorField => ({
+    label: `${mark[0].toUpperCase()}${mark.slice(1)} mark`,
+    get: (t) => t.marks?.[mark] || "",
+    set: (t, hex) => {
+      t.marks = { ...t.marks, [mark]: hex || undefined };
+    },
+    optional: true,
+    fallback: DEFAULT_MARK_HEX[mark],
+  })),
+  {
+    label: "Used tile",
+    get: (t) => t.used?.bg || "",
+    set: (t, hex) => {
+      t.used = { ...t.used, bg: hex || undefined };
+    },
+    optional: true,
+    fallback: "#333333",
+  },
+  {
+    label: "Used letters",
+    get: (t) => t.used?.fg || "",
+    set: (t, hex) => {
+      t.used = { ...t.used, fg: hex || undefined };
+    },
+    optional: true,
+    fallback: "#555555",
+  },
+];
+
+/** Edit a copy of the current theme with a live preview. Returns the key it was saved under, or null. */
+async function doThemeEditor(): Promise<string | null> {
+  const base = getTheme();
+  const draft: ThemeColors = structuredClone(base);
+  let idx = 0;
+  let hexInput: string | null = null; // digits typed so far, while entering a hex color
+
+  // The draft with a valid hex being typed already applied
+  const shown = (): ThemeColors => {
+    if (hexInput === null || !isHexColor(`#${hexInput}`)) return draft;
+    const t = structuredClone(draft);
+    EDITOR_FIELDS[idx].set(t, normalizeHex(`#${hexInput}`));
+    return t;
+  };
+
+  const render = () => {
+    const t = shown();
+    const tAccent = themeColor("accent", mono.bold, t);
+    const tBorder = themeColor("border", mono, t);
+    const tFg = themeColor("fg", mono, t);
+    const tDim = themeColor("dim", mono, t);
 
-  while (inSettings) {
     clearScreen();
     console.log();
+    console.log(bgLine(tBorder("  ──") + tAccent.bold(" Theme Editor ") + tBorder("─".repeat(30)), t));
+    console.log();
 
-    const themeName = currentThemeName;
-    const themeLabel = THEMES[themeName]?.label || "Amber (Default)";
-    const displayMode = config.minimal ? "Minimal" : "Full";
+    EDITOR_FIELDS.forEach((field, i) => {
+      const hex = field.get(t);
+      const swatch = hex ? bgColor(hex, toBg(nearestBasicColor(hex)), mono.inverse)("    ") : "    ";
+      const value = i === idx && hexInput !== null ? tFg(`#${hexInput}▏`) : tDim(hex || "not set");
+      const marker = i === idx ? tAccent("▸") : " ";
+      console.log(`  ${marker} ${swatch} ${(i === idx ? tFg.bold : tFg)(field.label.padEnd(14))} ${value}`);
+    });
 
-    const cardLines: string[] = [];
-    cardLines.push(dim("Theme    ") + accent(themeLabel));
-    cardLines.push(dim("Display  ") + fg(displayMode));
-    cardLines.push(dim("Version  ") + fg(`v${CURRENT_VERSION}`));
+    console.log();
+    console.log(bgLine(tBorder("  ──") + tAccent.bold(" Preview ") + tBorder("─".repeat(35)), t));
+    console.log();
 
-    console.log(boxen(cardLines.join("\n"), {
-      ...boxenTheme(),
+    // Preview: game header, word slots, letter tiles and a marked guess
+    console.log(box(tDim(`${formatDateLong(localDateKey())} (ET)`) + "\n" + tAccent("●●●") + tDim("○○"), {
+      ...boxenTheme(t),
       borderStyle: "round",
-      title: accent.bold(" Settings "),
+      title: tAccent.bold(" Anagrama "),
       titleAlignment: "left",
-      padding: { left: 1, right: 1, top: 1, bottom: 1 },
+      padding: { left: 1, right: 1, top: 0, bottom: 0 },
       margin: { left: 2 },
+      width: 50,
     }));
     console.log();
+    const typed = ["S", "T", "", "", ""];
+    console.log("    " + typed.map(() => tBorder("┌───┐")).join(" "));
+    console.log("    " + typed.map((ch) => tBorder("│") + (ch ? tAccent.bold(` ${ch} `) : tDim(" · ")) + tBorder("│")).join(" "));
+    console.log("    " + typed.map(() => tBorder("└───┘")).join(" "));
+    console.log();
+    console.log("      " + ["S", "T", "A", "L", "E"].map((ch, i) => renderTile(` ${ch} `, i < 2 ? "used" : "active", t)).join("  "));
+    console.log();
+    console.log("    " + MARK_KEYS.map((mark, i) => renderTile(` ${"STO"[i]} `, mark, t)).join(""));
+    console.log();
 
-    const action = await select({
+    console.log(bgLine(tDim(hexInput !== null
+      ? "  Type a hex color  Enter Keep it  Esc Back  "
+      : "  ↑↓ Color  ←→ Darker/Lighter  Enter Type hex  Del Reset  S Save  Esc Cancel  "), t));
+  };
+
+  const save = await new Promise<boolean>((resolve) => {
+    const stdin = process.stdin;
+    const decoder = new KeyDecoder();
+    let escapeTimer: NodeJS.Timeout | undefined;
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.setEncoding("utf8");
+
+    const finish = (result: boolean) => {
+      clearTimeout(escapeTimer);
+      stdin.setRawMode(false);
+      stdin.removeListener("data", onData);
+      resolve(result);
+    };
+
+    /** Handle one key. True once the editor is done. */
+    const handleKey = (key: Key): boolean => {
+      const field = EDITOR_FIELDS[idx];
+      if (hexInput !== null) {
+        if (key.name === "enter") {
+          if (isHexColor(`#${hexInput}`)) {
+            field.set(draft, normalizeHex(`#${hexInput}`));
+            hexInput = null;
+          }
+        } else if (key.name === "escape") {
+          hexInput = null;
+        } else if (key.name === "backspace") {
+          hexInput = hexInput.slice(0, -1);
+        } else if (key.name === "char" || key.name === "paste") {
+          hexInput = (hexInput + key.text.replace(/[^0-9a-f]/gi, "")).slice(0, 6);
+        } else if (key.name === "ctrl-c") {
+          finish(false);
+          return true;
+        }
+        return false;
+      }
+
+      switch (keyId(key)) {
+        case "up":
+        case "k":
+          idx = idx <= 0 ? EDITOR_FIELDS.length - 1 : idx - 1;
+          break;
+        case "down":
+        case "j":
+          idx = idx >= EDITOR_FIELDS.length - 1 ? 0 : idx + 1;
+          break;
+        case "left":
+        case "right": {
+          const toward = key.name === "left" ? "#000000" : "#FFFFFF";
+          field.set(draft, normalizeHex(mixHex(field.get(draft) || field.fallback, toward, 0.1)));
+          break;
+        }
+        case "enter":
+          hexInput = "";
+          break;
+        case "delete":
+        case "backspace":
+          if (field.optional) field.set(draft, "");
+          break;
+        case "s":
+        case "S":
+          finish(true);
+          return true;
+        case "escape":
+        case "ctrl-c":
+          finish(false);
+          return true;
+      }
+      return false;
+    };
+
+    const handleKeys = (keys: Key[]) => {
+      for (const key of keys) {
+        if (handleKey(key)) return;
+      }
+      render();
+    };
+
+    const onData = (chunk: string) => {
+      clearTimeout(escapeTimer);
+      handleKeys(decoder.feed(chunk));
+      if (decoder.waiting) escapeTimer = setTimeout(() => handleKeys(decoder.flush()), ESCAPE_TIMEOUT_MS);
+    };
+
+    render();
+    stdin.on("data", onData);
+  });
+  if (!save) return null;
+
+  // Built-in themes are saved as a copy; a custom theme is updated in place
+  const suggested = base.group === "custom" ? base.label : `My ${base.label.replace(/\s*\(.*\)$/, "")}`;
+  console.log();
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const label = (await rl.question(`  Theme name (${suggested}): `)).trim() || suggested;
+  rl.close();
+
+  const key = customThemeKey(label);
+  const theme: ThemeColors = { ...draft, label, group: "custom" };
+  await writeThemeFile(path.join(THEMES_DIR, `${key}.json`), themeToFile(theme));
+  THEMES[key] = theme;
+  return key;
+}
+
+/** The file key for a user theme named `label`, kept clear of the built-in themes' keys. */
+function customThemeKey(label: string): string {
+  const key = themeKey(label);
+  return THEMES[key] && THEMES[key].group !== "custom" ? `${key}-custom` : key;
+}
+
+async function doSettings(config: StoredConfig): Promise<void> {
+  let inSettings = true;
+
+  while (inSettings) {
+    clearScreen();
+    console.log();
+
+    const themeLabel = themeSettingLabel(config);
+    const displayMode = config.minimal ? "Minimal" : "Full";
+    const keysMode = config.keymap === "vi" ? "Vi" : "Default";
+    const accessibleLabel = accessibleMode ? "On" : "Off";
+    const marksLabel = getMarkPalette().label;
+    const symbolsLabel = markSymbols ? "On" : "Off";
+
+    const cardLines: string[] = [];
+    cardLines.push(dim("Theme          ") + accent(themeLabel));
+    cardLines.push(dim("Display        ") + fg(displayMode));
+    cardLines.push(dim("Keys           ") + fg(keysMode));
+    cardLines.push(dim("Marks          ") + renderMarks("sto", ["correct", "present", "absent"]) + " " + fg(marksLabel + (markSymbols ? " with symbols" : "")));
+    cardLines.push(dim("Screen reader  ") + fg(accessibleLabel));
+    cardLines.push(dim("Version        ") + fg(`v${CURRENT_VERSION}`));
+
+    console.log(box(cardLines.join("\n"), {
+      ...boxenTheme(),
+      borderStyle: "round",
+      title: accent.bold(" Settings "),
+      titleAlignment: "left",
+      padding: { left: 1, right: 1, top: 1, bottom: 1 },
+      margin: { left: 2 },
+    }));
+    console.log();
+
+    const action = await choose({
       message: "Settings",
       choices: [
         { name: `Theme: ${themeLabel}`, value: "theme" },
+        // The editor is all color swatches and a live preview
+        ...(accessibleMode ? [] : [{ name: "Edit theme", value: "edit-theme" }]),
+        { name: "Export theme", value: "export-theme" },
         { name: `Display: ${displayMode}`, value: "display" },
+        { name: `Keys: ${keysMode}`, value: "keys" },
+        { name: `Marks: ${marksLabel}`, value: "marks" },
+        { name: `Mark symbols: ${symbolsLabel}`, value: "symbols" },
+        { name: `Screen reader: ${accessibleLabel}`, value: "accessible" },
         { name: "Check for updates", value: "update" },
         { name: "Back", value: "back" },
       ],
@@ -801,24 +1699,92 @@ async function doSettings(config: StoredConfig): Promise<void> {
 
     switch (action) {
       case "theme": {
-        const picked = await doThemePicker();
+        const picked = await doThemePicker(config);
+        if (picked === AUTO_THEME) {
+          const pair = autoThemePair(config);
+          const choices = Object.entries(THEMES).map(([key, theme]) => ({ name: theme.label, value: key }));
+          const dark = await choose({ message: "Theme when the system is dark", choices, default: pair.dark });
+          const light = await choose({ message: "Theme when the system is light", choices, default: pair.light });
+          config.autoThemes = { dark, light };
+        }
         if (picked) {
-          applyTheme(picked);
           config.theme = picked;
+          await applySavedTheme(config, { askTerminal: true });
+          await writeConfig(config);
+        }
+        break;
+      }
+      case "edit-theme": {
+        const saved = await doThemeEditor();
+        if (saved) {
+          applyTheme(saved);
+          config.theme = saved;
           await writeConfig(config);
         }
         break;
       }
+      case "export-theme": {
+        // A built-in theme's own key would clash with it when loaded back from the themes folder
+        const suggested = `${customThemeKey(getTheme().label)}.json`;
+        console.log();
+        const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+        const filePath = path.resolve((await rl.question(`  Save to (${suggested}): `)).trim() || suggested);
+        try {
+          await writeThemeFile(filePath, themeToFile(getTheme()));
+          console.log(accent(`  Saved ${filePath}`));
+          console.log(dim(`  To use it, put it in ${THEMES_DIR}`));
+        } catch (err) {
+          console.log(chalk.red(`  Couldn't save the theme: ${(err as Error).message}`));
+        }
+        console.log();
+        console.log(chalk.gray("  Press Enter to continue..."));
+        await rl.question("");
+        rl.close();
+        break;
+      }
       case "display": {
         config.minimal = !config.minimal;
         await writeConfig(config);
         break;
       }
+      case "keys": {
+        config.keymap = config.keymap === "vi" ? "default" : "vi";
+        await writeConfig(config);
+        break;
+      }
+      case "marks": {
+        const picked = await choose({
+          message: "Marks",
+          choices: Object.entries(MARK_PALETTES).map(([key, palette]) => ({
+            name: `${palette.label}  ${renderMarks("sto", ["correct", "present", "absent"])}`,
+            value: key,
+          })),
+          default: currentMarkPalette,
+        });
+        config.marks = picked;
+        applyMarkStyle(config);
+        await writeConfig(config);
+        break;
+      }
+      case "symbols": {
+        config.markSymbols = !markSymbols;
+        applyMarkStyle(config);
+        await writeConfig(config);
+        break;
+      }
+      case "accessible": {
+        config.accessible = !accessibleMode;
+        // Turning it off here also overrides --accessible for the rest of the run
+        accessibleFlag = false;
+        applyAccessibility(config);
+        await writeConfig(config);
+        break;
+      }
       case "update": {
         const result = await doManualUpdate();
         if (result === "installed") {
           console.log();
-          const next = await select({
+          const next = await choose({
             message: "What next?",
             choices: [
               { name: "Quit (restart to apply)", value: "quit" },
@@ -848,28 +1814,32 @@ async function doSettings(config: StoredConfig): Promise<void> {
 
 // ── End auto-update / settings ───────────────────────────────────────────────
 
-async function apiPost<T>(baseUrl: string, pathUrl: string, body: unknown, token?: string): Promise<ApiResponse<T>> {
-  const res = await fetch(`${baseUrl}${pathUrl}`, {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      ...(token ? { authorization: `Bearer ${token}` } : {}),
-    },
-    body: JSON.stringify(body),
-  });
-  const data = (await res.json().catch(() => ({}))) as T;
-  return { status: res.status, data };
+/** One-line, human-readable explanation for each ApiError kind. */
+function describeApiError(err: ApiError): string {
+  switch (err.kind) {
+    case "network":
+      return "Can't reach the Anagrama server. Check your connection and try again.";
+    case "timeout":
+      return "The server took too long to respond. Try again in a moment.";
+    case "auth-expired":
+      return "Your session has expired or was revoked. Run `anagrama login` to sign in again.";
+    case "rate-limited":
+      return err.retryAfterMs
+        ? `Too many requests. Try again in ${Math.ceil(err.retryAfterMs / 1000)}s.`
+        : "Too many requests. Slow down and try again shortly.";
+    case "server":
+      return `The server ran into a problem${err.status ? ` (${err.status})` : ""}. Try again later.`;
+    case "malformed":
+      return "The server sent an unexpected response. Check ANAGRAMA_API_URL or try again later.";
+  }
 }
 
-async function apiGet<T>(baseUrl: string, pathUrl: string, token?: string): Promise<ApiResponse<T>> {
-  const res = await fetch(`${baseUrl}${pathUrl}`, {
-    method: "GET",
-    headers: {
-      ...(token ? { authorization: `Bearer ${token}` } : {}),
-    },
-  });
-  const data = (await res.json().catch(() => ({}))) as T;
-  return { status: res.status, data };
+/** Print an API failure, falling back to a generic message for non-API errors. */
+function printApiError(err: unknown, fallback: string): void {
+  console.log(chalk.red(`  ${fallback}`));
+  if (isApiError(err)) {
+    console.log(chalk.yellow(`  ${describeApiError(err)}`));
+  }
 }
 
 function sleep(ms: number): Promise<void> {
@@ -899,6 +1869,10 @@ class ColorSpinner {
   }
 
   start(): void {
+    if (accessibleMode) {
+      console.log(this.message);
+      return;
+    }
     process.stdout.write("\x1B[?25l"); // Hide cursor
     this.render();
     this.interval = setInterval(() => {
@@ -921,8 +1895,10 @@ class ColorSpinner {
       clearInterval(this.interval);
       this.interval = null;
     }
-    process.stdout.write("\r\x1B[K"); // Clear line
-    process.stdout.write("\x1B[?25h"); // Show cursor
+    if (!accessibleMode) {
+      process.stdout.write("\r\x1B[K"); // Clear line
+      process.stdout.write("\x1B[?25h"); // Show cursor
+    }
     if (finalMessage) {
       console.log(finalMessage);
     }
@@ -933,11 +1909,11 @@ function renderMarks(guess: string, marks: string[] | null | undefined): string
   const chars = guess.toUpperCase().split("");
   return chars
     .map((ch, idx) => {
-      const mark = marks?.[idx];
-      if (mark === "correct") return chalk.black.bgGreen(` ${ch} `);
-      if (mark === "present") return chalk.black.bgYellow(` ${ch} `);
-      if (mark === "absent") return chalk.white.bgGray(` ${ch} `);
-      return ` ${ch} `;
+      const mark = marks?.[idx] as Mark | undefined;
+      if (!mark || !MARK_SYMBOLS[mark]) return ` ${ch} `;
+      // Plain text can only tell marks apart by their symbols
+      const symbols = markSymbols || (colorLevel() === "none" && !mono.level);
+      return renderTile(symbols ? ` ${ch}${MARK_SYMBOLS[mark]}` : ` ${ch} `, mark);
     })
     .join("");
 }
@@ -953,10 +1929,18 @@ function printHomescreen(config: StoredConfig, minimal = false): void {
   const name = config.user?.displayName || config.user?.username || "Player";
   const isLoggedIn = !!config.token;
 
+  if (accessibleMode) {
+    const profileNote = activeProfile !== DEFAULT_PROFILE ? `, profile ${activeProfile}` : "";
+    console.log(`Anagrama version ${CURRENT_VERSION}${profileNote}.`);
+    console.log(isLoggedIn ? `Welcome back, ${name}!` : "Welcome to Anagrama!");
+    console.log();
+    return;
+  }
+
   // Auto-switch to compact mode for narrow terminals
   if (minimal || termWidth < 60) {
     console.log();
-    console.log(bgLine(accent.bold(`  ◆ Anagrama`) + dim(` v${CURRENT_VERSION}`)));
+    console.log(bgLine(accent.bold(`  ◆ Anagrama`) + dim(` v${CURRENT_VERSION}`) + (activeProfile !== DEFAULT_PROFILE ? dim(` · ${activeProfile}`) : "")));
     if (isLoggedIn) {
       console.log(bgLine(dim(`  Welcome back, `) + fg(name) + dim(`!`)));
     }
@@ -965,7 +1949,8 @@ function printHomescreen(config: StoredConfig, minimal = false): void {
   }
 
   const welcomeMsg = isLoggedIn ? `Welcome back, ${name}!` : "Welcome to Anagrama!";
-  const versionLine = `v${CURRENT_VERSION}  ·  ${config.baseUrl || DEFAULT_SITE_URL}`;
+  const profileLabel = activeProfile !== DEFAULT_PROFILE ? `  ·  profile: ${activeProfile}` : "";
+  const versionLine = `v${CURRENT_VERSION}  ·  ${config.baseUrl || DEFAULT_SITE_URL}${profileLabel}`;
 
   const lines: string[] = [];
   lines.push(fg.bold(welcomeMsg));
@@ -996,7 +1981,7 @@ function printHomescreen(config: StoredConfig, minimal = false): void {
   const boxWidth = Math.min(termWidth - 4, 68);
 
   console.log();
-  console.log(boxen(lines.join("\n"), {
+  console.log(box(lines.join("\n"), {
     ...boxenTheme(),
     borderStyle: "round",
     title: accent.bold(" Anagrama "),
@@ -1011,18 +1996,15 @@ function printHomescreen(config: StoredConfig, minimal = false): void {
 
 async function doLogin(siteUrl: string, apiUrl: string, opts: { open?: boolean; label?: string }): Promise<StoredConfig | null> {
   const config = await readConfig();
+  const client = new AnagramaClient(apiUrl);
 
-  const start = await apiPost<{
-    device_code?: string;
-    user_code?: string;
-    verification_url?: string;
-    expires_in?: number;
-    interval?: number;
-    error?: string;
-  }>(apiUrl, "/cli/auth/start", {
-    label: opts.label || "terminal",
-    clientName: "anagrama-cli",
-  });
+  let start;
+  try {
+    start = await client.authStart(opts.label || "terminal");
+  } catch (err) {
+    printApiError(err, "Failed to start login.");
+    return null;
+  }
 
   if (start.status >= 400 || !start.data.device_code || !start.data.verification_url) {
     console.log(chalk.red("Failed to start login."));
@@ -1040,7 +2022,7 @@ async function doLogin(siteUrl: string, apiUrl: string, opts: { open?: boolean;
   const manualUrl = `${siteUrl}/cli-auth?manual=true`;
 
   console.log();
-  console.log(boxen(accent.bold("Link Your Account"), {
+  console.log(box(accent.bold("Link Your Account"), {
     ...boxenTheme(),
     borderStyle: "round",
     padding: { left: 3, right: 3, top: 0, bottom: 0 },
@@ -1052,8 +2034,8 @@ async function doLogin(siteUrl: string, apiUrl: string, opts: { open?: boolean;
   if (userCode) {
     console.log(chalk.gray("  Your code:"));
     console.log();
-    console.log(boxen(chalk.white.bold(userCode), {
-      ...boxenTheme(), borderColor: getTheme().accent,
+    console.log(box(chalk.white.bold(userCode), {
+      ...boxenTheme(), borderColor: boxColor("accent"),
       borderStyle: "round",
       padding: { left: 3, right: 3, top: 0, bottom: 0 },
       margin: { left: 7 },
@@ -1093,12 +2075,21 @@ async function doLogin(siteUrl: string, apiUrl: string, opts: { open?: boolean;
   }
 
   while (Date.now() < deadline && !cancelled) {
-    const poll = await apiPost<{
-      status?: string;
-      token?: string;
-      user?: { userId?: string; username?: string | null; displayName?: string | null };
-      error?: string;
-    }>(apiUrl, "/cli/auth/poll", { device_code: deviceCode });
+    let poll;
+    try {
+      poll = await client.authPoll(deviceCode);
+    } catch (err) {
+      // Transient failures shouldn't abort the login — keep polling until the deadline
+      if (isApiError(err) && (err.kind === "network" || err.kind === "timeout" || err.kind === "rate-limited" || err.kind === "server")) {
+        if (debug) console.log(chalk.gray(`\n[DEBUG] Poll failed: ${err.kind} ${err.message}`));
+        await sleep(intervalSec * 1000);
+        continue;
+      }
+      process.removeListener("SIGINT", onSigint);
+      spinner.stop();
+      printApiError(err, "Login failed.");
+      return null;
+    }
 
     if (debug) {
       console.log(chalk.gray(`\n[DEBUG] Poll response: status=${poll.status}, data=${JSON.stringify(poll.data)}`));
@@ -1120,6 +2111,8 @@ async function doLogin(siteUrl: string, apiUrl: string, opts: { open?: boolean;
         token: poll.data.token,
         user: poll.data.user,
         updatedAt: new Date().toISOString(),
+        sessionExpired: undefined,
+        historySyncedAt: undefined,
       };
       await writeConfig(nextConfig);
       return nextConfig;
@@ -1142,31 +2135,193 @@ async function doLogin(siteUrl: string, apiUrl: string, opts: { open?: boolean;
   return null;
 }
 
+/** Check a token against the API and return the account it belongs to. */
+async function validateToken(apiUrl: string, token: string): Promise<{ user?: StoredConfig["user"]; error?: string }> {
+  const client = new AnagramaClient(apiUrl, token);
+  try {
+    const me = await client.getMe();
+    if (me.status >= 400 || me.data.error || !me.data.user) {
+      return { error: me.data.error || `Token was not accepted (${me.status}).` };
+    }
+    return { user: me.data.user };
+  } catch (err) {
+    if (isApiError(err) && err.kind === "auth-expired") {
+      return { error: "Token is invalid or has been revoked." };
+    }
+    return { error: isApiError(err) ? describeApiError(err) : String(err) };
+  }
+}
+
+/** Non-interactive login: validate a token and store it without the browser flow. */
+async function doLoginWithToken(siteUrl: string, apiUrl: string, token: string): Promise<StoredConfig | null> {
+  const { user, error } = await validateToken(apiUrl, token);
+  if (error) {
+    console.error(chalk.red("Login failed."));
+    console.error(chalk.yellow(error));
+    return null;
+  }
+  const config = await readStoredConfig();
+  const nextConfig: StoredConfig = {
+    ...config,
+    baseUrl: siteUrl,
+    apiUrl,
+    token,
+    user,
+    updatedAt: new Date().toISOString(),
+    sessionExpired: undefined,
+    historySyncedAt: undefined,
+  };
+  await writeConfig(nextConfig);
+  return nextConfig;
+}
+
+/** Fill in the account behind ANAGRAMA_TOKEN once per run (it's never cached on disk). */
+async function resolveEnvTokenUser(config: StoredConfig): Promise<void> {
+  if (!ENV_TOKEN || envTokenUser) return;
+  const { user } = await validateToken(normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL), ENV_TOKEN);
+  envTokenUser = user;
+  config.user = user;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// ── Session expiry ───────────────────────────────────────────────────────────
+
+/** Write of the `sessionExpired` flag, awaited before re-login so the two don't race. */
+let pendingExpiryWrite: Promise<void> = Promise.resolve();
+
+/** API client for the configured server that flags the session as expired on any 401/403. */
+function createClient(config: StoredConfig): AnagramaClient {
+  return new AnagramaClient(normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL), config.token, {
+    onAuthExpired: () => {
+      if (config.sessionExpired) return;
+      config.sessionExpired = true;
+      pendingExpiryWrite = writeConfig(config).catch(() => {});
+    },
+  });
+}
+
+/** Offer to re-run the device login. Updates `config` in place and returns true on success. */
+async function promptReauth(config: StoredConfig): Promise<boolean> {
+  console.log();
+  console.log(chalk.yellow("  Your session has expired or was revoked."));
+  if (ENV_TOKEN) {
+    console.log(chalk.gray("  The token in ANAGRAMA_TOKEN was rejected — update or unset it."));
+    return false;
+  }
+  if (!process.stdin.isTTY) {
+    console.log(chalk.gray("  Run `anagrama login` to sign in again."));
+    return false;
+  }
+
+  const again = await choose({
+    message: "Log in again now?",
+    choices: [
+      { name: "Yes, log in", value: true },
+      { name: "Not now", value: false },
+    ],
+  });
+  if (!again) return false;
+
+  await pendingExpiryWrite;
+  const siteUrl = normalizeBaseUrl(config.baseUrl || DEFAULT_SITE_URL);
+  const apiUrl = normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL);
+  const renewed = await doLogin(siteUrl, apiUrl, { open: true });
+  if (!renewed?.token) return false;
+
+  Object.assign(config, renewed);
+  console.log(chalk.green("  ✓ Logged in again — picking up where you left off."));
+  return true;
+}
+
+/**
+ * Run an API call; if the token turns out to be expired, offer an inline re-login
+ * and retry the same call once with the new token.
+ */
+async function withReauth<T>(
+  config: StoredConfig,
+  client: AnagramaClient,
+  action: () => Promise<T>,
+  opts: { beforePrompt?: () => void } = {},
+): Promise<T> {
+  try {
+    return await action();
+  } catch (err) {
+    if (!isApiError(err) || err.kind !== "auth-expired") throw err;
+    opts.beforePrompt?.();
+    if (!(await promptReauth(config))) throw err;
+    client.setToken(config.token);
+    return action();
+  }
+}
+
 async function doLogout(): Promise<void> {
   await deleteSecureToken();
-  await writeConfig({});
+  // Keep the profile's servers and global settings; forget only who was signed in
+  const { token, user, updatedAt, sessionExpired, historySyncedAt, ...rest } = await readConfig();
+  await writeConfig(rest);
   console.log(chalk.green("  Logged out. See you next time!"));
+  if (ENV_TOKEN) {
+    console.log(chalk.yellow("  ANAGRAMA_TOKEN is still set, so commands will keep using it."));
+  }
 }
 
-async function doWhoami(config: StoredConfig): Promise<void> {
+/** Prints account info; resolves to the exit code (non-zero when logged out or expired). */
+async function doWhoami(config: StoredConfig, opts: { json?: boolean } = {}): Promise<number> {
+  const exitCode = !config.token ? EXIT.notLoggedIn : config.sessionExpired ? EXIT.sessionExpired : EXIT.ok;
+  if (opts.json) {
+    const backend = ENV_TOKEN ? "env" : config.token ? await currentBackend(credContext()) : null;
+    const doc: WhoamiJson = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      kind: "whoami",
+      profile: activeProfile,
+      loggedIn: !!config.token,
+      sessionExpired: !!config.sessionExpired,
+      user: config.token
+        ? {
+            userId: config.user?.userId || null,
+            username: config.user?.username || null,
+            displayName: config.user?.displayName || null,
+          }
+        : null,
+      server: {
+        siteUrl: normalizeBaseUrl(config.baseUrl || DEFAULT_SITE_URL),
+        apiUrl: normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL),
+      },
+      credentials: backend,
+      lastLogin: config.token ? config.updatedAt || null : null,
+    };
+    printJson(doc);
+    return exitCode;
+  }
+
   if (!config.token) {
     console.log("Not logged in.");
-    return;
+    return exitCode;
   }
   const name = config.user?.displayName || config.user?.username || "Player";
   const username = config.user?.username || "—";
   const userId = config.user?.userId || "—";
   const lastLogin = config.updatedAt ? new Date(config.updatedAt).toLocaleString() : "—";
+  const backend = ENV_TOKEN ? null : await currentBackend(credContext());
 
   const lines: string[] = [];
   lines.push(dim("Display Name:  ") + fg.bold(name));
   lines.push(dim("Username:      ") + fg("@" + username));
   lines.push(dim("User ID:       ") + dim(userId));
+  lines.push(dim("Profile:       ") + fg(activeProfile));
   lines.push(dim("Server:        ") + accent(config.baseUrl || DEFAULT_SITE_URL));
   lines.push(dim("Last Login:    ") + fg(lastLogin));
+  lines.push(dim("Credentials:   ") + fg(ENV_TOKEN ? "ANAGRAMA_TOKEN (environment)" : backend ? backendLabel(backend) : "—"));
 
   console.log();
-  console.log(boxen(lines.join("\n"), {
+  console.log(box(lines.join("\n"), {
     ...boxenTheme(),
     borderStyle: "round",
     title: accent.bold(" Account Info "),
@@ -1174,158 +2329,679 @@ async function doWhoami(config: StoredConfig): Promise<void> {
     padding: { left: 1, right: 1, top: 1, bottom: 1 },
     margin: { left: 2 },
   }));
+  if (config.sessionExpired) {
+    console.log(chalk.yellow("  Your session has expired. Run `anagrama login` to sign in again."));
+  }
   console.log();
+  return exitCode;
 }
 
-// Theme colors - dynamically set by applyTheme
-let accent = chalk.hex("#F5A623");
-let fg = chalk.hex("#FFFFFF");
-let dim = chalk.hex("#888888");
+// ── Status ───────────────────────────────────────────────────────────────────
 
-function localDateKey(): string {
-  const d = new Date();
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+/** Report a failure as a JSON error document or a colored line; returns the exit code. */
+function reportFailure(opts: { json?: boolean }, exitCode: number, code: ErrorJson["error"]["code"], message: string): number {
+  if (opts.json) printJson(errorJson(code, message));
+  else console.log(chalk.yellow(`  ${message}`));
+  return exitCode;
 }
 
-function formatDateLong(dateKey: string): string {
-  try {
-    const date = new Date(dateKey + "T12:00:00");
-    return date.toLocaleDateString("en-US", {
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
-  } catch {
-    return dateKey;
+function reportApiFailure(opts: { json?: boolean }, err: unknown): number {
+  if (!isApiError(err)) throw err;
+  const code = err.kind === "auth-expired" ? "session-expired" : err.kind === "malformed" ? "error" : "unavailable";
+  return reportFailure(opts, exitCodeForApiError(err), code, describeApiError(err));
+}
+
+/** The exit code to stop with when there's no usable session, otherwise null. */
+function checkSession(config: StoredConfig, opts: { json?: boolean }): number | null {
+  if (!config.token) return reportFailure(opts, EXIT.notLoggedIn, "not-logged-in", "Not logged in. Run `anagrama login` first.");
+  if (config.sessionExpired) {
+    return reportFailure(opts, EXIT.sessionExpired, "session-expired", "Your session has expired. Run `anagrama login` to sign in again.");
   }
+  return null;
 }
 
-function printGameHeader(dateKey: string, scramble: string, targetLength: number, livesLeft: number, altFound: number, minimal: boolean, usedIndices?: Set<number>, currentInput?: string): void {
-  const border = chalk.hex(getTheme().border);
+function anagramaState(session: PuzzleResponse["session"]): GameState {
+  if (session?.done) return session.win ? "solved" : "failed";
+  const started = (session?.attempts || 0) > 0 || (session?.guesses?.length || 0) > 0 || (session?.hintsUsed || 0) > 0;
+  return started ? "in-progress" : "unplayed";
+}
 
-  if (minimal) {
-    console.log();
-    console.log(bgLine(dim(`  ${dateKey}`) + dim(` · `) + accent("●".repeat(livesLeft)) + dim("○".repeat(Math.max(0, 5 - livesLeft)))));
-    console.log(bgLine(`  ${accent.bold(scramble.toUpperCase().split("").join(" "))}`));
-    console.log();
-    return;
+function defineagramState(session: DefineagramSession | undefined): GameState {
+  if (session?.completed) return session.revealed ? "failed" : "solved";
+  if (session?.startedAt || (session?.inProgressWrongGuesses || 0) > 0 || (session?.hintsUsed || 0) > 0) {
+    return "in-progress";
   }
+  return "unplayed";
+}
 
-  const formattedDate = formatDateLong(dateKey);
-  const maxLives = 5;
+const STATE_LABELS: Record<GameState, string> = {
+  unplayed: "Not played yet",
+  "in-progress": "In progress",
+  solved: "Solved",
+  failed: "Not solved",
+};
 
-  // Game info box
-  const livesDisplay = accent("●".repeat(livesLeft)) + dim("○".repeat(Math.max(0, maxLives - livesLeft)));
-  const altDisplay = altFound > 0 ? dim(" · ") + accent(`${altFound} alt`) : "";
+/** Today's state for both games, straight from the server. Resolves to the exit code. */
+async function doStatus(config: StoredConfig, opts: { json?: boolean } = {}): Promise<number> {
+  const denied = checkSession(config, opts);
+  if (denied !== null) return denied;
 
-  const headerLines: string[] = [];
-  headerLines.push(dim(`${formattedDate} (ET)`));
-  headerLines.push(livesDisplay + altDisplay);
+  const client = createClient(config);
+  let puzzle: PuzzleResponse;
+  let daily: DefineagramDailyResponse;
+  try {
+    [puzzle, daily] = await Promise.all([
+      client.getPuzzle().then((r) => r.data),
+      client.getDefineagramDaily().then((r) => r.data),
+    ]);
+  } catch (err) {
+    return reportApiFailure(opts, err);
+  }
+
+  const anagramaSession = puzzle.session;
+  const defineagramSession = daily.session;
+  const doc: StatusJson = {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    kind: "status",
+    profile: activeProfile,
+    dateKey: puzzle.dateKey || daily.dateKey || localDateKey(),
+    nextPuzzleInMs: msUntilNextPuzzle(),
+    anagrama: {
+      state: anagramaState(anagramaSession),
+      attempts: anagramaSession?.attempts || 0,
+      maxAttempts: puzzle.maxAttempts || 5,
+      hintsUsed: anagramaSession?.hintsUsed || 0,
+    },
+    defineagram: {
+      state: defineagramState(defineagramSession),
+      timeMs: defineagramSession?.completed ? defineagramSession.totalTimeMs || defineagramSession.timeMs || 0 : null,
+      wrongGuesses: defineagramSession?.wrongGuesses || defineagramSession?.inProgressWrongGuesses || 0,
+      hintsUsed: defineagramSession?.hintsUsed || 0,
+    },
+  };
+
+  if (opts.json) {
+    printJson(doc);
+    return EXIT.ok;
+  }
 
+  const stateText = (state: GameState, detail: string) => {
+    const label = STATE_LABELS[state];
+    if (state === "solved") return accent(label) + dim(detail);
+    if (state === "failed") return chalk.red(label) + dim(detail);
+    return fg(label);
+  };
+  // `attempts` counts lives spent, so the winning guess is one more
+  const solvedGuesses = doc.anagrama.attempts + 1;
+  const anagramaDetail = doc.anagrama.state === "solved"
+    ? ` in ${solvedGuesses} guess${solvedGuesses === 1 ? "" : "es"}`
+    : "";
+  const defineagramDetail = doc.defineagram.timeMs !== null && doc.defineagram.state === "solved"
+    ? ` in ${formatTimeMs(doc.defineagram.timeMs)}`
+    : "";
   console.log();
-  console.log(boxen(headerLines.join("\n"), {
-    ...boxenTheme(),
-    borderStyle: "round",
-    title: accent.bold(" Anagrama "),
-    titleAlignment: "left",
-    padding: { left: 1, right: 1, top: 0, bottom: 0 },
-    margin: { left: 2 },
-    width: 50,
-  }));
+  console.log(`  ${dim("Anagrama     ")}${stateText(doc.anagrama.state, anagramaDetail)}`);
+  console.log(`  ${dim("Defineagram  ")}${stateText(doc.defineagram.state, defineagramDetail)}`);
   console.log();
-
-  // Target word slots
-  const inputChars = (currentInput || "").toUpperCase().split("");
-  const topRow = "    " + Array(targetLength).fill(border("┌───┐")).join(" ");
-  const midRow = "    " + Array(targetLength).fill(0).map((_, i) => {
-    if (inputChars[i]) {
-      return border("│") + accent.bold(` ${inputChars[i]} `) + border("│");
-    }
-    return border("│") + dim(" · ") + border("│");
-  }).join(" ");
-  const botRow = "    " + Array(targetLength).fill(border("└───┘")).join(" ");
-  console.log(topRow);
-  console.log(midRow);
-  console.log(botRow);
+  console.log(chalk.gray(`  Next puzzle in ${accent(getNextPuzzleCountdown())}`));
   console.log();
+  return EXIT.ok;
+}
 
-  // Letter tiles
-  console.log(dim("  Letters:"));
-  console.log();
-  const letters = scramble.toUpperCase().split("");
-  const row1 = letters.slice(0, 6).map((ch, i) => renderLetterTileWithState(ch, usedIndices?.has(i) || false)).join("  ");
-  const row2 = letters.slice(6).map((ch, i) => renderLetterTileWithState(ch, usedIndices?.has(i + 6) || false)).join("  ");
+function statsJson(stats: GameStats, defineagram: DefineagramStats, practice: PracticeStats): StatsJson {
+  const winRate = (won: number, played: number) => (played > 0 ? Math.round((won / played) * 1000) / 1000 : 0);
+  return {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    kind: "stats",
+    profile: activeProfile,
+    anagrama: {
+      gamesPlayed: stats.gamesPlayed,
+      gamesWon: stats.gamesWon,
+      winRate: winRate(stats.gamesWon, stats.gamesPlayed),
+      currentStreak: stats.currentStreak,
+      maxStreak: stats.maxStreak,
+      guessDistribution: stats.guessDistribution,
+      lastPlayedDate: stats.lastPlayedDate || null,
+      lastPlayedWon: stats.lastPlayedWon,
+    },
+    defineagram: {
+      gamesPlayed: defineagram.gamesPlayed,
+      gamesWon: defineagram.gamesWon,
+      winRate: winRate(defineagram.gamesWon, defineagram.gamesPlayed),
+      currentStreak: defineagram.currentStreak,
+      maxStreak: defineagram.maxStreak,
+      bestTimeMs: defineagram.bestTimeMs,
+      avgTimeMs: defineagram.avgTimeMs,
+      lastPlayedDate: defineagram.lastPlayedDate || null,
+      lastPlayedWon: defineagram.lastPlayedWon,
+    },
+    practice: {
+      roundsPlayed: practice.roundsPlayed,
+      roundsWon: practice.roundsWon,
+      winRate: winRate(practice.roundsWon, practice.roundsPlayed),
+      currentRun: practice.currentRun,
+      bestRun: practice.bestRun,
+      guessDistribution: practice.guessDistribution,
+      byLength: practice.byLength,
+      lastPlayedAt: practice.lastPlayedAt,
+    },
+  };
+}
 
-  console.log(`      ${row1}`);
-  if (row2.trim()) {
-    console.log(`        ${row2}`);
+// ── One-shot commands ────────────────────────────────────────────────────────
+// `puzzle`, `guess` and `hint` (and their `defineagram` twins) each make one
+// request and exit, so a game can be played from scripts or without a TTY.
+
+const GUESS_EXIT_CODES: Record<GuessResult, number> = {
+  correct: EXIT.ok,
+  wrong: EXIT.wrong,
+  alternate: EXIT.alternate,
+  invalid: EXIT.invalidWord,
+  "game-over": EXIT.gameOver,
+};
+
+/** Whether `word` can be spelled from the letter pool, using each tile at most once. */
+function fitsLetters(word: string, letters: string): boolean {
+  const pool = letters.toLowerCase().split("");
+  for (const ch of word) {
+    const idx = pool.indexOf(ch);
+    if (idx === -1) return false;
+    pool.splice(idx, 1);
   }
-  console.log();
+  return true;
+}
 
-  console.log(chalk.gray("  ─".repeat(25)));
+function printLives(livesLeft: number, maxLives: number): void {
+  if (accessibleMode) {
+    console.log(describeLives(livesLeft, maxLives));
+    return;
+  }
+  console.log(chalk.gray("    Lives: ") + accent("●".repeat(livesLeft)) + chalk.gray("○".repeat(Math.max(0, maxLives - livesLeft))));
 }
 
-// Available commands for suggestions
-const COMMANDS = [
-  { name: "/help", desc: "Show all commands" },
-  { name: "/hint", desc: "Get a hint" },
-  { name: "/exit", desc: "Return to menu" },
-  { name: "/quit", desc: "Exit the app" },
-  { name: "/shuffle", desc: "Shuffle the letters" },
-];
+async function doPuzzleOneShot(config: StoredConfig, opts: { json?: boolean } = {}): Promise<number> {
+  const denied = checkSession(config, opts);
+  if (denied !== null) return denied;
 
-function printCommands(): void {
-  const lines: string[] = [];
-  lines.push(accent("/help     ") + fg("Show this help"));
-  lines.push(accent("/hint     ") + fg("Reveal a letter"));
-  lines.push(accent("/shuffle  ") + fg("Shuffle the letters"));
-  lines.push(accent("/exit     ") + fg("Return to menu"));
-  lines.push(accent("/quit     ") + fg("Exit the app"));
+  let puzzle: PuzzleResponse;
+  try {
+    puzzle = (await createClient(config).getPuzzle()).data;
+  } catch (err) {
+    return reportApiFailure(opts, err);
+  }
+  if (puzzle.error) return reportFailure(opts, EXIT.error, "error", puzzle.error);
+
+  const session = puzzle.session;
+  const maxAttempts = puzzle.maxAttempts || 5;
+  const attempts = session?.attempts || 0;
+  const doc: PuzzleJson = {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    kind: "puzzle",
+    game: "anagrama",
+    dateKey: puzzle.dateKey || localDateKey(),
+    state: anagramaState(session),
+    letters: (puzzle.poolScramble || puzzle.scramble || puzzle.letters || "").toLowerCase(),
+    length: puzzle.length || 5,
+    hintsUsed: session?.hintsUsed || 0,
+    maxAttempts,
+    attempts,
+    livesLeft: Math.max(0, maxAttempts - attempts),
+    guesses: (session?.guesses || []).map((g) => ({ word: g.word, marks: g.marks })),
+  };
+
+  if (opts.json) {
+    printJson(doc);
+    return EXIT.ok;
+  }
 
   console.log();
-  console.log(boxen(lines.join("\n"), {
-    ...boxenTheme(),
-    borderStyle: "round",
-    title: accent.bold(" Commands "),
-    titleAlignment: "left",
-    padding: { left: 1, right: 1, top: 1, bottom: 1 },
-    margin: { left: 2 },
-  }));
+  console.log(`  ${dim(formatDateLong(doc.dateKey))}`);
+  console.log(`  ${accent.bold(doc.letters.toUpperCase().split("").join(" "))}  ${dim(`· ${doc.length} letters`)}`);
+  printLives(doc.livesLeft ?? 0, maxAttempts);
+  if (doc.guesses && doc.guesses.length > 0) {
+    console.log();
+    doc.guesses.forEach((g, i) => console.log(guessLine(i, g.word, g.marks)));
+  }
+  if (doc.state === "solved" || doc.state === "failed") {
+    console.log();
+    console.log(doc.state === "solved" ? chalk.green("  Solved — come back tomorrow!") : chalk.yellow("  Game over for today."));
+  }
   console.log();
+  return EXIT.ok;
 }
 
-function printStats(stats: GameStats): void {
-  const winPct = stats.gamesPlayed > 0 ? Math.round((stats.gamesWon / stats.gamesPlayed) * 100) : 0;
+async function doGuessOneShot(config: StoredConfig, rawWord: string, opts: { json?: boolean } = {}): Promise<number> {
+  const denied = checkSession(config, opts);
+  if (denied !== null) return denied;
+  const word = rawWord.trim().toLowerCase();
 
-  const lines: string[] = [];
+  const client = createClient(config);
+  let puzzle: PuzzleResponse;
+  try {
+    puzzle = (await client.getPuzzle()).data;
+  } catch (err) {
+    return reportApiFailure(opts, err);
+  }
+  if (puzzle.error) return reportFailure(opts, EXIT.error, "error", puzzle.error);
+
+  const dateKey = puzzle.dateKey || localDateKey();
+  const maxAttempts = puzzle.maxAttempts || 5;
+  const session = puzzle.session;
+  let attempts = session?.attempts || 0;
+  const letters = puzzle.poolScramble || puzzle.scramble || puzzle.letters || "";
+
+  const report = (result: GuessResult, extra: Partial<GuessJson> = {}): number => {
+    const doc: GuessJson = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      kind: "guess",
+      game: "anagrama",
+      dateKey,
+      word,
+      result,
+      marks: [],
+      done: result === "game-over",
+      won: false,
+      message: null,
+      attempts,
+      livesLeft: Math.max(0, maxAttempts - attempts),
+      ...extra,
+    };
+    if (opts.json) {
+      printJson(doc);
+      return GUESS_EXIT_CODES[result];
+    }
+    console.log();
+    if (doc.marks.length > 0) console.log(guessLine(session?.guesses?.length || 0, word, doc.marks));
+    if (result === "game-over") {
+      console.log(chalk.yellow("  Today's puzzle is already finished. Come back tomorrow!"));
+    } else if (result === "correct") {
+      console.log(chalk.bold.green("  🎉 You found it!"));
+    } else if (result === "alternate") {
+      console.log(chalk.cyan(`    ✓ ${doc.message || "Valid anagram, but not the target word."}`));
+    } else if (result === "invalid") {
+      console.log(chalk.red(`    ✗ ${doc.message || "Not a valid word."}`));
+    } else {
+      if (doc.message) console.log(chalk.yellow(`    ${doc.message}`));
+      if (doc.done) console.log(chalk.yellow("  Game over. Better luck next time!"));
+      else printLives(doc.livesLeft ?? 0, maxAttempts);
+    }
+    console.log();
+    return GUESS_EXIT_CODES[result];
+  };
 
-  // Stats row
-  lines.push(
-    accent.bold(String(stats.gamesPlayed).padStart(4)) + "      " +
-    accent.bold(String(winPct + "%").padStart(5)) + "      " +
-    accent.bold(String(stats.currentStreak).padStart(4)) + "      " +
-    accent.bold(String(stats.maxStreak).padStart(4))
-  );
-  lines.push(dim("Played    Win %    Streak    Best"));
-  lines.push("");
+  if (session?.done) return report("game-over", { won: !!session.win });
+  if (word.length !== (puzzle.length || word.length) || !/^[a-z]+$/.test(word) || (letters && !fitsLetters(word, letters))) {
+    return report("invalid", { message: `Use ${puzzle.length || "the"} letters from ${letters.toUpperCase() || "the puzzle"}.` });
+  }
 
-  // Guess distribution bar chart
-  const maxCount = Math.max(1, ...stats.guessDistribution);
-  const maxBarWidth = 22;
-  lines.push(dim("Guess distribution"));
-  for (let i = 0; i < stats.guessDistribution.length; i++) {
-    const count = stats.guessDistribution[i] || 0;
-    const barLen = Math.max(1, Math.round((count / maxCount) * maxBarWidth));
-    const bar = accent("\u2588".repeat(barLen));
-    lines.push(dim(String(i + 1)) + " " + bar + " " + fg(String(count)));
+  let res;
+  try {
+    res = await client.submitGuess(word);
+  } catch (err) {
+    return reportApiFailure(opts, err);
+  }
+  const data = res.data;
+  const marks = data.marks || [];
+  const result: GuessResult = data.isTarget
+    ? "correct"
+    : data.isAltAnagram || data.accepted
+      ? "alternate"
+      : marks.length === 0
+        ? "invalid"
+        : "wrong";
+  if (result === "wrong") attempts = data.attempts ?? attempts + 1;
+  const done = data.done ?? (result === "correct" || attempts >= maxAttempts);
+
+  if (done) {
+    const guesses = [
+      ...(session?.guesses || []),
+      { word, marks, isTarget: result === "correct", isAlt: result === "alternate" },
+    ];
+    await recordGame(
+      { ...anagramaRecordFromSession(dateKey, { ...session, win: result === "correct", attempts, guesses }), source: "cli" },
+      { upgradeWin: true },
+    );
+  }
+
+  return report(result, { marks, done, won: result === "correct", message: data.message || null });
+}
+
+async function doHintOneShot(config: StoredConfig, opts: { json?: boolean } = {}): Promise<number> {
+  const denied = checkSession(config, opts);
+  if (denied !== null) return denied;
+
+  let res;
+  try {
+    res = await createClient(config).getHint();
+  } catch (err) {
+    return reportApiFailure(opts, err);
+  }
+  const data = res.data;
+  if (res.status >= 400 || data.error) {
+    return reportFailure(opts, EXIT.error, "error", data.error || data.message || "No hints available");
+  }
+
+  const text = data.letter && data.position !== undefined
+    ? `Position ${data.position + 1} is "${data.letter.toUpperCase()}"`
+    : data.hint || data.message || null;
+  if (opts.json) {
+    const doc: HintJson = { schemaVersion: JSON_SCHEMA_VERSION, kind: "hint", game: "anagrama", hint: text };
+    if (data.position !== undefined) doc.position = data.position;
+    if (data.letter) doc.letter = data.letter.toLowerCase();
+    printJson(doc);
+    return EXIT.ok;
+  }
+  console.log();
+  console.log(chalk.cyan(`  💡 ${text || "No hint available"}`));
+  console.log();
+  return EXIT.ok;
+}
+
+type DefineagramLoad = { daily: DefineagramDailyResponse; dateKey: string; difficulty: string };
+
+/** Load today's Defineagram and make sure its clock is running on the server. */
+async function loadDefineagramOneShot(client: AnagramaClient): Promise<DefineagramLoad> {
+  const daily = (await client.getDefineagramDaily()).data;
+  const dateKey = daily.dateKey || daily.id || localDateKey();
+  const difficulty = daily.difficulty || "medium";
+  const session = daily.session;
+  if (!daily.error && !session?.completed && !session?.revealed && !session?.startedAt) {
+    await client.startDefineagram(dateKey, difficulty).catch(() => {});
+    daily.session = { ...session, startedAt: new Date().toISOString() };
+  }
+  return { daily, dateKey, difficulty };
+}
+
+async function doDefineagramPuzzleOneShot(config: StoredConfig, opts: { json?: boolean } = {}): Promise<number> {
+  const denied = checkSession(config, opts);
+  if (denied !== null) return denied;
+
+  let load: DefineagramLoad;
+  try {
+    load = await loadDefineagramOneShot(createClient(config));
+  } catch (err) {
+    return reportApiFailure(opts, err);
+  }
+  const { daily, dateKey, difficulty } = load;
+  if (daily.error) return reportFailure(opts, EXIT.error, "error", daily.error);
+
+  const session = daily.session;
+  const doc: PuzzleJson = {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    kind: "puzzle",
+    game: "defineagram",
+    dateKey,
+    state: defineagramState(session),
+    letters: (daily.letters || "").toLowerCase(),
+    length: daily.wordLength || 5,
+    hintsUsed: session?.hintsUsed || 0,
+    definition: daily.definition || "",
+    partOfSpeech: daily.partOfSpeech || null,
+    difficulty,
+    hints: session?.usedHints || [],
+    wrongGuesses: session?.inProgressWrongGuesses || session?.wrongGuesses || 0,
+    penaltyMs: session?.inProgressPenaltyMs || session?.penaltyMs || 0,
+  };
+
+  if (opts.json) {
+    printJson(doc);
+    return EXIT.ok;
+  }
+
+  console.log();
+  console.log(`  ${dim(formatDateLong(dateKey))}${dim(" · ")}${dim(difficulty)}`);
+  console.log(`  ${fg(doc.definition || "No definition available.")}${doc.partOfSpeech ? dim(` (${doc.partOfSpeech})`) : ""}`);
+  console.log(`  ${accent.bold(doc.letters.toUpperCase().split("").join(" "))}  ${dim(`· ${doc.length} letters`)}`);
+  for (const hint of doc.hints || []) console.log(chalk.yellow(`  💡 ${hint}`));
+  if (doc.penaltyMs) console.log(chalk.gray(`  Penalties so far: +${formatTimeMs(doc.penaltyMs)}`));
+  if (doc.state === "solved" || doc.state === "failed") {
+    console.log();
+    console.log(doc.state === "solved" ? chalk.green("  Solved — come back tomorrow!") : chalk.yellow("  Answer revealed — come back tomorrow!"));
+  }
+  console.log();
+  return EXIT.ok;
+}
+
+async function doDefineagramGuessOneShot(config: StoredConfig, rawWord: string, opts: { json?: boolean } = {}): Promise<number> {
+  const denied = checkSession(config, opts);
+  if (denied !== null) return denied;
+  const word = rawWord.trim().toLowerCase();
+
+  const client = createClient(config);
+  let load: DefineagramLoad;
+  try {
+    load = await loadDefineagramOneShot(client);
+  } catch (err) {
+    return reportApiFailure(opts, err);
+  }
+  const { daily, dateKey, difficulty } = load;
+  if (daily.error) return reportFailure(opts, EXIT.error, "error", daily.error);
+
+  const session = daily.session;
+  let wrongGuesses = session?.inProgressWrongGuesses || session?.wrongGuesses || 0;
+  let penaltyMs = session?.inProgressPenaltyMs || session?.penaltyMs || 0;
+  const wordLength = daily.wordLength || 5;
+
+  const report = (result: GuessResult, extra: Partial<GuessJson> = {}): number => {
+    const doc: GuessJson = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      kind: "guess",
+      game: "defineagram",
+      dateKey,
+      word,
+      result,
+      marks: [],
+      done: result === "game-over",
+      won: false,
+      message: null,
+      wrongGuesses,
+      penaltyMs,
+      timeMs: null,
+      ...extra,
+    };
+    if (opts.json) {
+      printJson(doc);
+      return GUESS_EXIT_CODES[result];
+    }
+    console.log();
+    if (result === "game-over") {
+      console.log(chalk.yellow("  Today's Defineagram is already finished. Come back tomorrow!"));
+    } else if (result === "correct") {
+      console.log(chalk.bold.green("  🎉 You found it!"));
+      if (doc.timeMs) console.log(chalk.gray(`     Time: ${accent(formatTimeMs(doc.timeMs))}`));
+    } else if (result === "invalid") {
+      console.log(chalk.red(`    ✗ ${doc.message}`));
+    } else {
+      console.log(chalk.red(`    ✗ ${doc.message || "Wrong! Try again."}`) + chalk.gray(" (+5s penalty)"));
+    }
+    console.log();
+    return GUESS_EXIT_CODES[result];
+  };
+
+  if (session?.completed || session?.revealed) {
+    return report("game-over", { won: !!(session.completed && !session.revealed) });
+  }
+  if (word.length !== wordLength || !/^[a-z]+$/.test(word) || (daily.letters && !fitsLetters(word, daily.letters))) {
+    return report("invalid", { message: `Use ${wordLength} letters from ${(daily.letters || "").toUpperCase() || "the puzzle"}.` });
+  }
+
+  let res;
+  try {
+    res = await client.submitDefineagramGuess(word, dateKey, difficulty);
+  } catch (err) {
+    return reportApiFailure(opts, err);
+  }
+
+  if (!res.data.correct) {
+    wrongGuesses++;
+    penaltyMs += 5000;
+    await client.saveDefineagramProgress({ puzzleId: dateKey, difficulty, wrongGuesses, penaltyMs }).catch(() => {});
+    return report("wrong", { message: res.data.message || null });
+  }
+
+  const startedAt = session?.startedAt ? new Date(session.startedAt).getTime() : Date.now();
+  const pausedMs = defineagramPausedMs(session);
+  const elapsedMs = Math.max(0, Date.now() - startedAt - pausedMs);
+  await client.completeDefineagram({ puzzleId: dateKey, difficulty, timeMs: elapsedMs, wrongGuesses, pausedMs }).catch(() => {});
+  await recordGame({
+    game: "defineagram",
+    dateKey,
+    won: true,
+    guesses: [{ word, marks: [] }],
+    hintsUsed: session?.hintsUsed || 0,
+    altFound: 0,
+    timeMs: elapsedMs + penaltyMs,
+    penaltyMs,
+    wrongGuesses,
+    source: "cli",
+  }, { upgradeWin: true });
+  return report("correct", { done: true, won: true, timeMs: elapsedMs + penaltyMs, message: res.data.message || null });
+}
+
+async function doDefineagramHintOneShot(config: StoredConfig, opts: { json?: boolean } = {}): Promise<number> {
+  const denied = checkSession(config, opts);
+  if (denied !== null) return denied;
+
+  const client = createClient(config);
+  let load: DefineagramLoad;
+  let res;
+  try {
+    load = await loadDefineagramOneShot(client);
+    if (load.daily.error) return reportFailure(opts, EXIT.error, "error", load.daily.error);
+    res = await client.getDefineagramHint(load.dateKey, load.difficulty, load.daily.session?.hintsUsed || 0);
+  } catch (err) {
+    return reportApiFailure(opts, err);
+  }
+  if (res.status >= 400 || res.data.error || !res.data.hint) {
+    return reportFailure(opts, EXIT.error, "error", res.data.error || "No hints available");
   }
 
+  const { daily, dateKey, difficulty } = load;
+  const session = daily.session;
+  let penaltyMs = session?.inProgressPenaltyMs || session?.penaltyMs || 0;
+  if (!(session?.usedHints || []).includes(res.data.hint)) {
+    penaltyMs += 10000;
+    await client.saveDefineagramProgress({
+      puzzleId: dateKey,
+      difficulty,
+      wrongGuesses: session?.inProgressWrongGuesses || session?.wrongGuesses || 0,
+      penaltyMs,
+    }).catch(() => {});
+  }
+
+  if (opts.json) {
+    printJson({ schemaVersion: JSON_SCHEMA_VERSION, kind: "hint", game: "defineagram", hint: res.data.hint, penaltyMs });
+    return EXIT.ok;
+  }
+  console.log();
+  console.log(chalk.yellow(`  💡 ${res.data.hint}`));
+  console.log(chalk.gray("     +10s penalty"));
   console.log();
-  console.log(boxen(lines.join("\n"), {
+  return EXIT.ok;
+}
+
+/** Move the active profile's token to another credential backend. Resolves to the exit code. */
+async function doAuthMigrate(to?: string): Promise<number> {
+  const from = await currentBackend(credContext());
+  if (!from) {
+    console.log("Not logged in.");
+    return EXIT.error;
+  }
+
+  let target = to as CredentialBackend | undefined;
+  if (!target) {
+    const hasKeyring = await keyringAvailable();
+    target = await choose({
+      message: `Move credentials from ${backendLabel(from)} to:`,
+      choices: CREDENTIAL_BACKENDS
+        .filter((b) => b !== from)
+        .map((b) => ({
+          name: backendLabel(b) + (b === "keyring" && !hasKeyring ? " (unavailable)" : ""),
+          value: b,
+          disabled: b === "keyring" && !hasKeyring,
+        })),
+    });
+  } else if (!CREDENTIAL_BACKENDS.includes(target)) {
+    console.log(chalk.red(`  Unknown backend "${to}". Use one of: ${CREDENTIAL_BACKENDS.join(", ")}.`));
+    return EXIT.error;
+  }
+
+  if (target === from) {
+    console.log(chalk.gray(`  Credentials are already stored in: ${backendLabel(from)}.`));
+    return EXIT.ok;
+  }
+
+  let ctx = credContext();
+  if (target === "passphrase" && !process.env.ANAGRAMA_PASSPHRASE) {
+    if (!process.stdin.isTTY) {
+      console.error(chalk.red("  No terminal to ask for a passphrase. Set ANAGRAMA_PASSPHRASE to migrate non-interactively."));
+      return EXIT.usage;
+    }
+    const first = await promptSecret(chalk.gray("  New passphrase: "));
+    const second = await promptSecret(chalk.gray("  Repeat passphrase: "));
+    if (!first || first !== second) {
+      console.log(chalk.red("  Passphrases didn't match."));
+      return EXIT.error;
+    }
+    // The source backend isn't passphrase-based, so this is only asked for the write
+    ctx = { ...ctx, getPassphrase: async () => first };
+    cachedPassphrase = first;
+  }
+
+  const result = await migrateToken(ctx, target);
+  tokenCache.clear();
+  if (!result.ok) {
+    console.log(chalk.red(`  ${result.error || "Migration failed."}`));
+    return EXIT.error;
+  }
+  console.log(chalk.green(`  ✓ Moved credentials from ${backendLabel(from)} to ${backendLabel(target)}.`));
+  return EXIT.ok;
+}
+
+// ── Profile commands ─────────────────────────────────────────────────────────
+
+type ProfileSummary = {
+  name: string;
+  active: boolean;
+  loggedIn: boolean;
+  user?: StoredConfig["user"];
+  baseUrl: string;
+  apiUrl: string;
+};
+
+async function readProfileSummary(name: string): Promise<ProfileSummary> {
+  const paths = profilePaths(name);
+  const raw = (await readJsonFile<StoredConfig>(paths.accountPath)) || {};
+  const { account } = splitAccount(raw);
+  return {
+    name,
+    active: name === activeProfile,
+    loggedIn: (await currentBackend(credContext(name))) !== null,
+    user: account.user,
+    baseUrl: account.baseUrl || DEFAULT_SITE_URL,
+    apiUrl: account.apiUrl || DEFAULT_API_URL,
+  };
+}
+
+async function doProfileList(): Promise<void> {
+  const names = await listProfiles();
+  const summaries = await Promise.all(names.map(readProfileSummary));
+
+  const lines: string[] = [];
+  for (const p of summaries) {
+    const marker = p.active ? accent("● ") : dim("○ ");
+    const who = p.loggedIn
+      ? fg(p.user?.displayName || p.user?.username || "Player")
+      : dim("not logged in");
+    lines.push(marker + (p.active ? accent.bold(p.name) : fg(p.name)) + dim("  ·  ") + who);
+    lines.push(dim(`    ${p.baseUrl}`) + (p.apiUrl !== DEFAULT_API_URL ? dim(`  ·  api ${p.apiUrl}`) : ""));
+  }
+
+  console.log();
+  console.log(box(lines.join("\n"), {
     ...boxenTheme(),
     borderStyle: "round",
-    title: accent.bold(" Statistics "),
+    title: accent.bold(" Profiles "),
     titleAlignment: "left",
     padding: { left: 1, right: 1, top: 1, bottom: 1 },
     margin: { left: 2 },
@@ -1333,36 +3009,473 @@ function printStats(stats: GameStats): void {
   console.log();
 }
 
-async function showPostGameMenu(
-  dateKey: string,
-  guessHistory: { word: string; marks: string[] }[],
-  won: boolean,
-  attempts: number,
-  maxLives: number,
-): Promise<"home" | "quit"> {
-  // Update stats
-  const stats = await updateStats(won, attempts, dateKey);
-  printStats(stats);
-
-  // Show share preview
-  const shareText = generateShareText(dateKey, guessHistory, won, maxLives);
-  const previewLines = shareText.split("\n").map((l) => chalk.gray("    " + l));
-  console.log(previewLines.join("\n"));
-  console.log();
+async function doProfileAdd(name: string, opts: { url?: string; apiUrl?: string }): Promise<boolean> {
+  if (!PROFILE_NAME_RE.test(name)) {
+    console.log(chalk.red("  Profile names may use letters, numbers, - and _ (max 32 characters)."));
+    return false;
+  }
+  if (await profileExists(name)) {
+    console.log(chalk.yellow(`  Profile "${name}" already exists.`));
+    return false;
+  }
+  const { dir, accountPath } = profilePaths(name);
+  const account: Partial<StoredConfig> = {};
+  if (opts.url) account.baseUrl = normalizeBaseUrl(opts.url);
+  if (opts.apiUrl) account.apiUrl = normalizeBaseUrl(opts.apiUrl);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(accountPath, JSON.stringify(account, null, 2), "utf8");
+  console.log(chalk.green(`  Created profile "${name}".`));
+  return true;
+}
+
+async function doProfileUse(name: string): Promise<boolean> {
+  if (!(await profileExists(name))) {
+    console.log(chalk.red(`  Unknown profile "${name}".`));
+    return false;
+  }
+  await setActiveProfile(name);
+  console.log(chalk.green(`  Now using profile "${name}".`));
+  return true;
+}
+
+async function doProfileRemove(name: string, opts: { yes?: boolean }): Promise<boolean> {
+  if (name === DEFAULT_PROFILE) {
+    console.log(chalk.red("  The default profile can't be removed. Use `anagrama logout` instead."));
+    return false;
+  }
+  if (!(await profileExists(name))) {
+    console.log(chalk.red(`  Unknown profile "${name}".`));
+    return false;
+  }
+  if (!opts.yes) {
+    const confirm = await choose({
+      message: `Remove profile "${name}" with its credentials and stats?`,
+      choices: [
+        { name: "Yes, remove it", value: true },
+        { name: "Cancel", value: false },
+      ],
+    });
+    if (!confirm) return false;
+  }
+  const saved = (await readJsonFile<StoredConfig>(CONFIG_PATH))?.activeProfile;
+  await fs.rm(profilePaths(name).dir, { recursive: true, force: true });
+  if (saved === name) await setActiveProfile(DEFAULT_PROFILE);
+  if (activeProfile === name) activeProfile = DEFAULT_PROFILE;
+  console.log(chalk.green(`  Removed profile "${name}".`));
+  return true;
+}
+
+/** Menu account switcher: pick an existing profile or create a new one. */
+async function doProfileSwitcher(): Promise<void> {
+  const summaries = await Promise.all((await listProfiles()).map(readProfileSummary));
+  const choices = summaries.map((p) => {
+    const who = p.loggedIn ? p.user?.displayName || p.user?.username || "Player" : "not logged in";
+    return { name: `${p.active ? "● " : "  "}${p.name} (${who})`, value: p.name };
+  });
+  choices.push({ name: "  + Add profile", value: "__add" });
+  choices.push({ name: "  Back", value: "__back" });
+
+  const picked = await choose({ message: "Switch account", choices });
+  if (picked === "__back") return;
+
+  if (picked === "__add") {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const name = (await rl.question(chalk.gray("  Profile name: "))).trim();
+    rl.close();
+    if (!name || !(await doProfileAdd(name, {}))) {
+      await sleep(1500);
+      return;
+    }
+    await setActiveProfile(name);
+    return;
+  }
+
+  if (picked !== activeProfile) {
+    await setActiveProfile(picked);
+  }
+}
+
+// Theme colors - dynamically set by applyTheme
+let accent = chalk.hex("#F5A623");
+let fg = chalk.hex("#FFFFFF");
+let dim = chalk.hex("#888888");
+
+function localDateKey(d = new Date()): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/** A real calendar day as YYYY-MM-DD: "2026-02-30" is the right shape but no day at all. */
+function isDateKey(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && localDateKey(new Date(`${value}T12:00:00`)) === value;
+}
+
+function formatDateLong(dateKey: string): string {
+  try {
+    const date = new Date(dateKey + "T12:00:00");
+    return date.toLocaleDateString("en-US", {
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  } catch {
+    return dateKey;
+  }
+}
+
+function printGameHeader(frame: Frame, dateKey: string, scramble: string, targetLength: number, livesLeft: number, altFound: number, minimal: boolean, usedIndices?: Set<number>, currentInput?: string, labels?: { title: string; subtitle: string }): void {
+  const border = themeColor("border");
+
+  if (accessibleMode) {
+    frame.log(`${labels ? `${labels.title}, ${labels.subtitle}` : `Anagrama, ${formatDateLong(dateKey)}`}.`);
+    const alts = altFound > 0 ? ` ${altFound} alternate ${altFound === 1 ? "word" : "words"} found.` : "";
+    frame.log(describeLives(livesLeft) + alts);
+    frame.log(`Find the ${targetLength}-letter word in the letters ${scramble.toUpperCase().split("").join(" ")}.`);
+    return;
+  }
+
+  if (minimal) {
+    frame.log();
+    frame.log(bgLine(dim(`  ${labels?.subtitle ?? dateKey}`) + dim(` · `) + accent("●".repeat(livesLeft)) + dim("○".repeat(Math.max(0, 5 - livesLeft)))));
+    frame.log(bgLine(`  ${accent.bold(scramble.toUpperCase().split("").join(" "))}`));
+    frame.log();
+    return;
+  }
+
+  const formattedDate = formatDateLong(dateKey);
+  const maxLives = 5;
+
+  // Game info box
+  const livesDisplay = accent("●".repeat(livesLeft)) + dim("○".repeat(Math.max(0, maxLives - livesLeft)));
+  const altDisplay = altFound > 0 ? dim(" · ") + accent(`${altFound} alt`) : "";
+
+  const headerLines: string[] = [];
+  headerLines.push(dim(labels?.subtitle ?? `${formattedDate} (ET)`));
+  headerLines.push(livesDisplay + altDisplay);
+
+  frame.log();
+  frame.log(box(headerLines.join("\n"), {
+    ...boxenTheme(),
+    borderStyle: "round",
+    title: accent.bold(` ${labels?.title ?? "Anagrama"} `),
+    titleAlignment: "left",
+    padding: { left: 1, right: 1, top: 0, bottom: 0 },
+    margin: { left: 2 },
+    width: 50,
+  }));
+  frame.log();
+
+  // Target word slots
+  const inputChars = (currentInput || "").toUpperCase().split("");
+  const topRow = "    " + Array(targetLength).fill(border("┌───┐")).join(" ");
+  const midRow = "    " + Array(targetLength).fill(0).map((_, i) => {
+    if (inputChars[i]) {
+      return border("│") + accent.bold(` ${inputChars[i]} `) + border("│");
+    }
+    return border("│") + dim(" · ") + border("│");
+  }).join(" ");
+  const botRow = "    " + Array(targetLength).fill(border("└───┘")).join(" ");
+  frame.log(topRow);
+  frame.log(midRow);
+  frame.log(botRow);
+  frame.log();
+
+  // Letter tiles
+  frame.log(dim("  Letters:"));
+  frame.log();
+  const letters = scramble.toUpperCase().split("");
+  const row1 = letters.slice(0, 6).map((ch, i) => renderLetterTileWithState(ch, usedIndices?.has(i) || false)).join("  ");
+  const row2 = letters.slice(6).map((ch, i) => renderLetterTileWithState(ch, usedIndices?.has(i + 6) || false)).join("  ");
+
+  frame.log(`      ${row1}`);
+  if (row2.trim()) {
+    frame.log(`        ${row2}`);
+  }
+  frame.log();
+
+  frame.log(chalk.gray("  ─".repeat(25)));
+}
+
+// ── Game modes ──────────────────────────────────────────────────────────────
+// Each daily game plugs into the shared loop below through GameMode. The mode
+// loads its puzzle and owns the board, guesses and hints; the loop owns input,
+// the common slash commands (/help, /shuffle, /exit, /quit) and the post-game
+// flow. Modes are listed in GAME_MODES, which also drives the main menu.
+
+type GameContext = {
+  config: StoredConfig;
+  client: AnagramaClient;
+  minimal: boolean;
+  /** Show the Defineagram clock; `--no-timer` hides it. */
+  timer: boolean;
+  /** Past day to play from the archive, for modes that have one. */
+  date?: string;
+};
+
+type GameCommand = {
+  name: string; // including the slash
+  desc: string; // suggestion list while typing
+  help: string; // the /help box
+};
+
+/** A finished game, ready for the post-game flow. */
+type GameFinish = {
+  record: NewGameRecord;
+  /** False when the result is already on the server and isn't recorded from here. */
+  save: boolean;
+};
+
+/** What a turn tells the loop. Handlers call `redraw` and then print their own output. */
+type TurnResult = { done?: boolean; stop?: boolean } | undefined;
+
+type GameSession = {
+  /** The letters on the board; /shuffle reorders them. */
+  letters: string;
+  /** Draw the board into `frame`; `usedIndices` and `currentInput` track the word being typed. */
+  render(frame: Frame, usedIndices?: Set<number>, currentInput?: string): void;
+  /** Guesses made so far, oldest first, for Up/Down at the prompt. */
+  recall(): string[];
+  guess(word: string, redraw: () => void): Promise<TurnResult>;
+  hint(redraw: () => void): Promise<void>;
+  /** Mode-specific slash commands, keyed without the slash. */
+  commands?: Record<string, (redraw: () => void) => Promise<TurnResult>>;
+  /** The board shows a running clock, so it's redrawn in place every second while waiting for input. */
+  live?: boolean;
+};
+
+type GameLoad =
+  | { session: GameSession; result: () => GameFinish } // `result` is read once a turn reports done
+  | { finished: GameFinish };                           // already played: straight to the post-game menu
+
+type GameMode<S> = {
+  id: GameId;
+  label: string;
+  commands: GameCommand[];
+  /** Fetch the puzzle. Reports its own errors and returns null on failure. */
+  load(ctx: GameContext): Promise<GameLoad | null>;
+  computeStats(entries: HistoryEntry[]): S;
+  printStats(stats: S): void;
+  /** Homescreen banner line once today's puzzle is solved, otherwise null. */
+  solvedToday(stats: S, today: string): string | null;
+  /** Text for "Share results", or null when there's nothing to share. */
+  shareText(record: NewGameRecord): string | null;
+};
+
+/** The commands every mode has, around its own hint and extras. */
+function gameCommands(hint: GameCommand, ...extra: GameCommand[]): GameCommand[] {
+  return [
+    { name: "/help", desc: "Show all commands", help: "Show this help" },
+    hint,
+    ...extra,
+    { name: "/exit", desc: "Return to menu", help: "Return to menu" },
+    { name: "/quit", desc: "Exit the app", help: "Exit the app" },
+    { name: "/shuffle", desc: "Shuffle the letters", help: "Shuffle the letters" },
+    { name: "/clear", desc: "Clear the board", help: "Clear your word and any messages" },
+  ];
+}
+
+function printCommands(commands: GameCommand[], keymap: Keymap): void {
+  if (accessibleMode) {
+    console.log(box(commands.map((c) => `${c.name}: ${c.help}`).join("\n"), { title: "Commands" }));
+    return;
+  }
+
+  const lines = commands.map((c) => accent(c.name.padEnd(10)) + fg(c.help));
+
+  // The keys for each action, one column per mode when there's more than one
+  const modes = Object.keys(keymap.modes);
+  const keyRows = HELP_ACTIONS
+    .map((action) => ({ action, keys: modes.map((mode) => keysFor(keymap, mode, action).slice(0, 2).map(keyLabel).join(" ")) }))
+    .filter((row) => row.keys.some((k) => k));
+  if (keyRows.length > 0) {
+    lines.push("");
+    const header = modes.length > 1 ? modes.map((m) => (m[0].toUpperCase() + m.slice(1)).padEnd(14)).join("") : "";
+    lines.push(accent.bold("Keys".padEnd(24)) + dim(header));
+    for (const row of keyRows) {
+      lines.push(fg(ACTIONS[row.action].padEnd(24)) + row.keys.map((k) => accent(k.padEnd(14))).join(""));
+    }
+  }
 
-  // Next puzzle countdown
-  console.log(chalk.gray(`  Next puzzle in ${accent(getNextPuzzleCountdown())}`));
   console.log();
+  console.log(box(lines.join("\n"), {
+    ...boxenTheme(),
+    borderStyle: "round",
+    title: accent.bold(" Commands "),
+    titleAlignment: "left",
+    padding: { left: 1, right: 1, top: 1, bottom: 1 },
+    margin: { left: 2 },
+  }));
+  console.log();
+}
 
-  // Post-game menu
-  const action = await select({
-    message: "What next?",
-    choices: [
-      { name: "Share results", value: "share" as const },
-      { name: "Home", value: "home" as const },
-      { name: "Quit", value: "quit" as const },
-    ],
+/** Accessible mode's prompt: one plain line, with Up/Down going through `recall`. */
+async function readGuess(recall: string[]): Promise<{ input: string; isCommand: boolean }> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    history: [...recall].reverse(), // newest first
+  });
+  rl.on("SIGINT", () => {
+    console.log("\nUse /exit to return to menu or /quit to exit.");
+    rl.prompt();
   });
+  const answer = (await rl.question("Your guess: ")).trim().toLowerCase();
+  rl.close();
+  const isCommand = answer.startsWith("/");
+  return { input: isCommand ? answer : answer.replace(/[^a-z]/g, ""), isCommand };
+}
+
+function waitForKey(): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const stdin = process.stdin;
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.once("data", () => {
+      stdin.setRawMode(false);
+      resolve();
+    });
+  });
+}
+
+/** The shared input loop. Resolves true once the game is over, false if the player leaves. */
+async function runTurns(
+  session: GameSession,
+  commands: GameCommand[],
+  opts: { minimal: boolean; keymap: Keymap },
+): Promise<boolean> {
+  const { minimal, keymap } = opts;
+  let shown: { usedIndices?: Set<number>; currentInput?: string } = {};
+  const boardFrame = () => {
+    const frame = new Frame();
+    session.render(frame, shown.usedIndices, shown.currentInput);
+    if (accessibleMode) return frame;
+    if (!minimal) frame.log(chalk.gray("    / for shortcuts"));
+    frame.log();
+    return frame;
+  };
+  const redraw = (usedIndices?: Set<number>, currentInput?: string) => {
+    shown = { usedIndices, currentInput };
+    const frame = boardFrame();
+    if (accessibleMode) {
+      // Read the board out in full; there's no screen to keep up to date
+      for (const line of frame.lines) console.log(line);
+      return;
+    }
+    screen.draw(frame);
+  };
+  // Handlers redraw before printing their result, which on its own is what a screen reader needs
+  const refresh = () => {
+    if (!accessibleMode) redraw();
+  };
+  // Messages that go under the input line, out of the way of the board
+  const note = (message: string) => {
+    if (accessibleMode) console.log(message);
+    else process.stdout.write("\n" + message + "\x1b[1A\r");
+  };
+
+  if (!accessibleMode) screen.enter();
+  redraw();
+  if (accessibleMode) console.log("Type a guess, or /help for commands.");
+
+  while (true) {
+    // A running clock ticks without touching the input line or the command menu
+    const ticker = session.live && !accessibleMode ? setInterval(() => screen.patch(boardFrame()), 1000) : undefined;
+    // Interactive input with live letter tracking, or a plain line for screen readers
+    const { input: answer, isCommand } = await (accessibleMode
+      ? readGuess(session.recall())
+      : interactiveInput(
+        session.letters.toUpperCase().split(""),
+        commands,
+        (input, usedIndices) => redraw(usedIndices, input),
+        { recall: session.recall(), keymap },
+      )).finally(() => clearInterval(ticker));
+
+    if (!answer) continue;
+
+    let result: TurnResult;
+    if (isCommand || answer.startsWith("/")) {
+      const cmd = answer.startsWith("/") ? answer.slice(1).split(" ")[0] : answer;
+      switch (cmd) {
+        case "help":
+        case "h":
+          if (accessibleMode) {
+            printCommands(commands, keymap);
+            continue;
+          }
+          redraw();
+          printCommands(commands, keymap);
+          console.log(chalk.gray("    Press any key to continue..."));
+          await waitForKey();
+          redraw();
+          continue;
+        case "hint":
+          await session.hint(refresh);
+          continue;
+        case "clear":
+          redraw();
+          continue;
+        case "exit":
+        case "back":
+        case "menu":
+          console.log(chalk.gray("  Returning to menu..."));
+          return false;
+        case "quit":
+        case "q":
+          screen.leave();
+          console.log(chalk.gray("  Goodbye!"));
+          process.exit(0);
+        case "shuffle":
+        case "s":
+          session.letters = session.letters.split("").sort(() => Math.random() - 0.5).join("");
+          refresh();
+          note(accessibleMode
+            ? `Letters shuffled: ${session.letters.toUpperCase().split("").join(" ")}.`
+            : chalk.gray("  Letters shuffled!"));
+          continue;
+        default: {
+          const handler = session.commands?.[cmd];
+          if (!handler) {
+            refresh();
+            note(chalk.yellow(`  Unknown command: /${cmd}. Type /help for commands.`));
+            continue;
+          }
+          result = await handler(refresh);
+        }
+      }
+    } else {
+      result = await session.guess(answer, refresh);
+    }
+
+    if (result?.done) return true;
+    if (result?.stop) return false;
+  }
+}
+
+/** Record the result, then show stats, the share preview and the "What next?" menu. */
+async function showPostGame<S>(mode: GameMode<S>, finish: GameFinish): Promise<"home" | "quit"> {
+  const entries = finish.save ? await recordGame(finish.record) : await loadHistory();
+  mode.printStats(mode.computeStats(entries));
+
+  const shareText = mode.shareText(finish.record);
+  // The preview is emoji squares, which a screen reader reads one by one
+  if (shareText && !accessibleMode) {
+    const previewLines = shareText.split("\n").map((l) => chalk.gray("    " + l));
+    console.log(previewLines.join("\n"));
+    console.log();
+  }
+
+  // Next puzzle countdown (only meaningful for today's puzzle)
+  if (!finish.record.archive) {
+    console.log(chalk.gray(`  Next puzzle in ${accent(getNextPuzzleCountdown())}`));
+    console.log();
+  }
+
+  const choices: { name: string; value: "share" | "home" | "quit" }[] = [];
+  if (shareText) choices.push({ name: "Share results", value: "share" });
+  choices.push({ name: "Home", value: "home" });
+  choices.push({ name: "Quit", value: "quit" });
+
+  const action = await choose({ message: "What next?", choices });
 
   if (action === "share") {
     const copied = await copyToClipboard(shareText);
@@ -1378,7 +3491,7 @@ async function showPostGameMenu(
       console.log();
     }
     // After sharing, show home/quit
-    const next = await select({
+    const next = await choose({
       message: "What next?",
       choices: [
         { name: "Home", value: "home" as const },
@@ -1387,51 +3500,142 @@ async function showPostGameMenu(
     });
     return next;
   }
-  return action;
+  return action;
+}
+
+/** Load and play one game of `mode`, then run the post-game flow. */
+async function playMode<S>(mode: GameMode<S>, config: StoredConfig, opts: { minimal?: boolean; timer?: boolean; date?: string } = {}): Promise<void> {
+  if (!config.token) {
+    console.log("You need to log in first.");
+    return;
+  }
+
+  const ctx: GameContext = {
+    config,
+    client: createClient(config),
+    minimal: opts.minimal || config.minimal || false,
+    timer: opts.timer !== false,
+    date: opts.date,
+  };
+  const loaded = await mode.load(ctx);
+  if (!loaded) return;
+
+  let postAction: "home" | "quit";
+  try {
+    let finish: GameFinish;
+    if ("finished" in loaded) {
+      finish = loaded.finished;
+    } else {
+      const keymap = buildKeymap(config.keymap, config.keybindings);
+      if (!(await runTurns(loaded.session, mode.commands, { minimal: ctx.minimal, keymap }))) return;
+      finish = loaded.result();
+    }
+    postAction = await showPostGame(mode, finish);
+  } finally {
+    // Whatever was on the terminal before the game comes back
+    screen.leave();
+  }
+
+  if (postAction === "quit") {
+    console.log(chalk.gray("  Goodbye!"));
+    process.exit(0);
+  }
+  // "home" — returns to main loop
+}
+
+/** Guess distribution as sentences, for accessible mode. */
+function describeDistribution(distribution: number[]): string[] {
+  return distribution.map((count, i) =>
+    `Solved in ${i + 1} ${i === 0 ? "guess" : "guesses"}: ${count} ${count === 1 ? "time" : "times"}.`);
+}
+
+function printStats(stats: GameStats): void {
+  const winPct = stats.gamesPlayed > 0 ? Math.round((stats.gamesWon / stats.gamesPlayed) * 100) : 0;
+
+  if (accessibleMode) {
+    console.log();
+    console.log("Anagrama statistics.");
+    console.log(`Played ${stats.gamesPlayed}, won ${winPct}%. Current streak ${stats.currentStreak}, best streak ${stats.maxStreak}.`);
+    for (const line of describeDistribution(stats.guessDistribution)) console.log(line);
+    console.log();
+    return;
+  }
+
+  const lines: string[] = [];
+
+  // Stats row
+  lines.push(
+    accent.bold(String(stats.gamesPlayed).padStart(4)) + "      " +
+    accent.bold(String(winPct + "%").padStart(5)) + "      " +
+    accent.bold(String(stats.currentStreak).padStart(4)) + "      " +
+    accent.bold(String(stats.maxStreak).padStart(4))
+  );
+  lines.push(dim("Played    Win %    Streak    Best"));
+  lines.push("");
+
+  // Guess distribution bar chart
+  const maxCount = Math.max(1, ...stats.guessDistribution);
+  const maxBarWidth = 22;
+  lines.push(dim("Guess distribution"));
+  for (let i = 0; i < stats.guessDistribution.length; i++) {
+    const count = stats.guessDistribution[i] || 0;
+    const barLen = Math.max(1, Math.round((count / maxCount) * maxBarWidth));
+    const bar = accent("\u2588".repeat(barLen));
+    lines.push(dim(String(i + 1)) + " " + bar + " " + fg(String(count)));
+  }
+
+  console.log();
+  console.log(box(lines.join("\n"), {
+    ...boxenTheme(),
+    borderStyle: "round",
+    title: accent.bold(" Statistics "),
+    titleAlignment: "left",
+    padding: { left: 1, right: 1, top: 1, bottom: 1 },
+    margin: { left: 2 },
+  }));
+  console.log();
 }
 
 // Render letter tile - uses theme accent for active, tileFg for contrast
 function renderLetterTileWithState(ch: string, used: boolean): string {
-  if (used) {
-    return chalk.bgHex("#333333").hex("#555555")(` ${ch.toUpperCase()} `);
-  }
-  const theme = getTheme();
-  return chalk.bgHex(theme.accent).hex(theme.tileFg).bold(` ${ch.toUpperCase()} `);
-}
-
-// Check if a letter is available in the remaining pool
-function isLetterAvailable(letter: string, pool: string[], usedIndices: Set<number>): number {
-  const upperLetter = letter.toUpperCase();
-  for (let i = 0; i < pool.length; i++) {
-    if (!usedIndices.has(i) && pool[i].toUpperCase() === upperLetter) {
-      return i;
-    }
-  }
-  return -1;
+  return renderTile(` ${ch.toUpperCase()} `, used ? "used" : "active");
 }
 
-// Interactive input that validates letters and shows suggestions BELOW the input
+// Interactive input that validates letters and shows suggestions BELOW the input.
+// Keys are looked up in `keymap`; history-prev/next step through `recall`
+// (earlier guesses, oldest first) outside command mode.
 async function interactiveInput(
   pool: string[],
-  onUpdate: (input: string, usedIndices: Set<number>) => void
+  commands: GameCommand[],
+  onUpdate: (input: string, usedIndices: Set<number>) => void,
+  opts: { recall?: string[]; keymap: Keymap },
 ): Promise<{ input: string; isCommand: boolean }> {
+  const { recall = [], keymap } = opts;
   return new Promise((resolve) => {
-    let input = "";
-    let isCommandMode = false;
+    const editor = new LineEditor();
+    const decoder = new KeyDecoder();
+    let escapeTimer: NodeJS.Timeout | undefined;
+    let mode = keymap.initialMode;
+    let recallIndex = recall.length; // recall.length is the line being typed
+    let draft = "";
     let selectedIndex = 0;
-    let filteredCommands: typeof COMMANDS = [];
-    let menuVisible = false;
+    let filteredCommands: GameCommand[] = [];
     let renderedMenuLines = 0; // Track actual rendered lines
-    const usedIndices = new Set<number>();
+    let usedIndices = new Set<number>();
 
     const stdin = process.stdin;
     stdin.setRawMode(true);
     stdin.resume();
     stdin.setEncoding("utf8");
+    process.stdout.write(BRACKETED_PASTE_ON);
+
+    // Anything starting with "/" is a command; everything else is a guess
+    const isCommandMode = () => editor.text.startsWith("/");
+    const isTyping = () => keymap.typingModes.includes(mode);
 
     const getFilteredCommands = () => {
-      if (!isCommandMode) return [];
-      return COMMANDS.filter(c => c.name.startsWith(input));
+      if (!isCommandMode()) return [];
+      return commands.filter(c => c.name.startsWith(editor.text));
     };
 
     // Clear N lines below cursor using relative moves (no save/restore)
@@ -1447,7 +3651,6 @@ async function interactiveInput(
     const clearMenu = () => {
       if (renderedMenuLines === 0) return;
       clearBelow(renderedMenuLines);
-      menuVisible = false;
       renderedMenuLines = 0;
     };
 
@@ -1459,8 +3662,8 @@ async function interactiveInput(
       clearBelow(renderedMenuLines);
 
       if (filteredCommands.length === 0) {
-        menuVisible = false;
         renderedMenuLines = 0;
+        renderInput();
         return;
       }
 
@@ -1469,7 +3672,7 @@ async function interactiveInput(
         const isSelected = i === selectedIndex;
         process.stdout.write("\n\x1b[2K");
         if (isSelected) {
-          process.stdout.write(chalk.bgHex("#333333").white(`  ${cmd.name.padEnd(12)}${cmd.desc}`));
+          process.stdout.write(bgColor("#333333", "bgBlackBright", mono.inverse)(chalk.white(`  ${cmd.name.padEnd(12)}${cmd.desc}`)));
         } else {
           process.stdout.write(chalk.gray(`  ${cmd.name.padEnd(12)}`) + chalk.dim(cmd.desc));
         }
@@ -1477,250 +3680,360 @@ async function interactiveInput(
       // Move back up to input line and reposition cursor
       process.stdout.write(`\x1b[${filteredCommands.length}A`);
       renderInput();
-      menuVisible = true;
       renderedMenuLines = filteredCommands.length;
     };
 
+    // Draw the line and put the terminal cursor where the editor's cursor is.
+    // Outside a typing mode the cursor sits on a letter, as in vi's normal mode.
     const renderInput = () => {
+      if (!isTyping()) editor.cursor = Math.min(editor.cursor, Math.max(0, editor.text.length - 1));
       process.stdout.write(`\r\x1b[2K`); // Clear line
-      process.stdout.write(chalk.white.bold("  › ") + input);
+      process.stdout.write((isTyping() ? chalk.white.bold("  › ") : chalk.yellow.bold("  N ")) + editor.text);
+      const back = editor.text.length - editor.cursor;
+      if (back > 0) process.stdout.write(`\x1b[${back}D`);
     };
 
-    let ctrlCShown = false;
-
-    const handleKey = (key: string) => {
-      // Ctrl+C - show message once, replace if spammed
-      if (key === "\u0003") {
-        if (!ctrlCShown) {
-          clearMenu();
-          process.stdout.write("\n\x1b[2K" + chalk.gray("  Use /exit to return to menu or /quit to exit.") + "\x1b[1A");
-          renderInput();
-          ctrlCShown = true;
-        }
+    // After any change to the text: refresh the board for a guess, or the suggestions for a command
+    const afterEdit = () => {
+      clearMenu();
+      selectedIndex = 0;
+      if (isCommandMode()) {
+        renderMenu();
         return;
       }
+      filteredCommands = [];
+      const indices = poolIndices(pool, editor.text);
+      // What's left after deleting a command's slash isn't a guess
+      if (!indices || !/^[A-Z]*$/.test(editor.text)) editor.clear();
+      usedIndices = indices && editor.text ? indices : new Set();
+      onUpdate(editor.text, usedIndices);
+      renderInput();
+    };
 
-      // Reset ctrlC flag on any other key
-      if (ctrlCShown) {
-        process.stdout.write("\n\x1b[2K\x1b[1A");
-        renderInput();
-        ctrlCShown = false;
-      }
-
-      // Arrow keys
-      if (key === "\u001B[A") { // Up arrow
-        if (isCommandMode && filteredCommands.length > 0) {
-          selectedIndex = selectedIndex <= 0 ? filteredCommands.length - 1 : selectedIndex - 1;
-          renderMenu();
+    // Letters go in only while the pool still has a free tile for them.
+    // Each one is its own undo step unless the caller has already taken a checkpoint.
+    const insertText = (text: string, undoable = true): boolean => {
+      let changed = false;
+      for (const ch of text) {
+        if (undoable) editor.checkpoint();
+        if (editor.text === "" && ch === "/") {
+          editor.insert(ch);
+        } else if (isCommandMode()) {
+          // Keep the slash in front
+          if (editor.cursor === 0 || ch < " ") continue;
+          editor.insert(ch.toLowerCase());
+        } else if (/^[a-zA-Z]$/.test(ch) && poolIndices(pool, editor.preview(ch.toUpperCase()))) {
+          editor.insert(ch.toUpperCase());
+        } else {
+          continue;
         }
-        return;
+        changed = true;
       }
+      return changed;
+    };
 
-      if (key === "\u001B[B") { // Down arrow
-        if (isCommandMode && filteredCommands.length > 0) {
-          selectedIndex = selectedIndex >= filteredCommands.length - 1 ? 0 : selectedIndex + 1;
-          renderMenu();
-        }
-        return;
-      }
+    // Swap in an earlier guess, or the draft when stepping past the newest one
+    const recallGuess = (index: number) => {
+      if (recallIndex === recall.length) draft = editor.text;
+      recallIndex = index;
+      editor.checkpoint();
+      editor.clear();
+      insertText(index === recall.length ? draft : recall[index].toUpperCase(), false);
+      afterEdit();
+    };
 
-      // Tab - autocomplete (only in command mode)
-      if (key === "\t") {
-        if (isCommandMode && selectedIndex >= 0 && selectedIndex < filteredCommands.length) {
-          clearMenu();
-          input = filteredCommands[selectedIndex].name;
-          selectedIndex = 0;
-          renderInput();
-          renderMenu();
-        }
-        return;
-      }
+    // Run an edit as one undo step, refreshing only if it changed something
+    const edit = (change: () => boolean) => {
+      editor.checkpoint();
+      if (change()) afterEdit();
+    };
 
-      // Enter
-      if (key === "\r" || key === "\n") {
-        if (isCommandMode && selectedIndex >= 0 && selectedIndex < filteredCommands.length) {
-          input = filteredCommands[selectedIndex].name;
-        }
+    // Switch modes, if the keymap has the one asked for
+    const switchMode = (next: string) => {
+      if (!keymap.modes[next]) return;
+      mode = next;
+      renderInput();
+    };
 
-        clearMenu();
-        stdin.setRawMode(false);
-        stdin.removeListener("data", handleKey);
-        console.log();
-        resolve({ input: input.toLowerCase(), isCommand: isCommandMode });
-        return;
-      }
+    let ctrlCShown = false;
 
-      // Backspace
-      if (key === "\u007F" || key === "\b") {
-        if (input.length > 0) {
-          clearMenu();
+    const finish = () => {
+      if (isCommandMode() && selectedIndex >= 0 && selectedIndex < filteredCommands.length) {
+        editor.set(filteredCommands[selectedIndex].name);
+      }
 
-          const lastChar = input[input.length - 1];
-          input = input.slice(0, -1);
-          selectedIndex = 0;
+      clearMenu();
+      clearTimeout(escapeTimer);
+      process.stdout.write(BRACKETED_PASTE_OFF);
+      stdin.setRawMode(false);
+      stdin.removeListener("data", handleData);
+      console.log();
+      resolve({ input: editor.text.toLowerCase(), isCommand: isCommandMode() });
+    };
 
-          // Check if we're exiting command mode
-          const wasCommandMode = isCommandMode;
-          if (input === "" || !input.startsWith("/")) {
-            isCommandMode = false;
-            filteredCommands = [];
-          }
+    // Actions that run a slash command straight away, whatever is on the line
+    const runCommand = (name: string) => {
+      clearMenu();
+      filteredCommands = [];
+      editor.set(name);
+      finish();
+    };
 
-          // Only update game display for word mode, not command mode
-          if (!wasCommandMode && lastChar !== "/") {
-            const upperChar = lastChar.toUpperCase();
-            for (const idx of usedIndices) {
-              if (pool[idx].toUpperCase() === upperChar) {
-                usedIndices.delete(idx);
-                break;
-              }
+    // Returns true once the line has been submitted
+    const runAction = (action: Action): boolean => {
+      switch (action) {
+        case "submit":
+          finish();
+          return true;
+        case "shuffle":
+          runCommand("/shuffle");
+          return true;
+        case "hint":
+          runCommand("/hint");
+          return true;
+
+        case "history-prev":
+        case "history-next": {
+          const step = action === "history-prev" ? -1 : 1;
+          if (isCommandMode()) {
+            if (filteredCommands.length > 0) {
+              selectedIndex = (selectedIndex + step + filteredCommands.length) % filteredCommands.length;
+              renderMenu();
             }
-            onUpdate(input, usedIndices);
+          } else {
+            const next = recallIndex + step;
+            if (next >= 0 && next <= recall.length) recallGuess(next);
           }
+          return false;
+        }
 
-          renderInput();
-          if (isCommandMode) {
+        // Autocomplete (only in command mode)
+        case "complete":
+          if (isCommandMode() && selectedIndex >= 0 && selectedIndex < filteredCommands.length) {
+            clearMenu();
+            editor.set(filteredCommands[selectedIndex].name);
+            selectedIndex = 0;
             renderMenu();
           }
+          return false;
+
+        // While typing, only on an empty line, so a stray "/" doesn't throw away the
+        // word; from vi's normal mode it replaces the line
+        case "command-palette":
+          if (!isCommandMode() && (editor.text === "" || !keymap.typingModes.includes(mode))) {
+            editor.checkpoint();
+            editor.set("/");
+            mode = keymap.typingModes[0] || mode;
+            afterEdit();
+          }
+          return false;
+
+        case "clear":
+          clearMenu();
+          editor.checkpoint();
+          editor.clear();
+          afterEdit();
+          return false;
+
+        case "undo-letter":
+          if (editor.undo()) afterEdit();
+          return false;
+
+        case "cursor-left":
+        case "cursor-right":
+        case "line-start":
+        case "line-end":
+        case "word-left":
+        case "word-right": {
+          const moves = {
+            "cursor-left": () => editor.left(),
+            "cursor-right": () => editor.right(),
+            "line-start": () => editor.home(),
+            "line-end": () => editor.end(),
+            "word-left": () => editor.wordLeft(),
+            "word-right": () => editor.wordRight(),
+          };
+          moves[action]();
+          renderInput();
+          return false;
         }
-        return;
-      }
 
-      // Escape
-      if (key === "\u001B" && key.length === 1) {
-        clearMenu();
-        input = "";
-        isCommandMode = false;
-        selectedIndex = 0;
-        filteredCommands = [];
-        usedIndices.clear();
-        onUpdate(input, usedIndices);
-        renderInput();
-        return;
+        case "delete-back":
+          edit(() => editor.backspace());
+          return false;
+        case "delete-forward":
+          edit(() => editor.deleteForward());
+          return false;
+        case "delete-word":
+          edit(() => editor.deleteWordBefore());
+          return false;
+        case "delete-start":
+          edit(() => editor.deleteToStart());
+          return false;
+        case "delete-end":
+          edit(() => editor.deleteToEnd());
+          return false;
+
+        case "insert-mode":
+          switchMode("insert");
+          return false;
+        case "insert-start":
+          editor.home();
+          switchMode("insert");
+          return false;
+        case "append":
+          editor.right();
+          switchMode("insert");
+          return false;
+        case "append-end":
+          editor.end();
+          switchMode("insert");
+          return false;
+
+        case "normal-mode":
+          if (!keymap.modes.normal) return false;
+          // Leaving insert mode drops a half-typed command, and the cursor steps back onto the last letter
+          if (isCommandMode()) runAction("clear");
+          editor.left();
+          switchMode("normal");
+          return false;
+
+        default:
+          return false;
       }
+    };
 
-      const char = key;
+    // Returns true once the line has been submitted
+    const handleKey = (key: Key): boolean => {
+      // Ctrl+C - show message once, replace if spammed
+      if (key.name === "ctrl-c") {
+        if (!ctrlCShown) {
+          clearMenu();
+          process.stdout.write("\n\x1b[2K" + chalk.gray("  Use /exit to return to menu or /quit to exit.") + "\x1b[1A");
+          renderInput();
+          ctrlCShown = true;
+        }
+        return false;
+      }
 
-      // Starting a command - don't update game display
-      if (char === "/" && input === "") {
-        isCommandMode = true;
-        input = "/";
-        selectedIndex = 0;
+      // Reset ctrlC flag on any other key
+      if (ctrlCShown) {
+        process.stdout.write("\n\x1b[2K\x1b[1A");
         renderInput();
-        renderMenu();
-        return;
+        ctrlCShown = false;
       }
 
-      // In command mode - don't update game display
-      if (isCommandMode) {
-        clearMenu();
-        input += char;
-        selectedIndex = 0;
-        renderInput();
-        renderMenu();
-        return;
+      // Pastes are always typed, and so is everything after a "/" so commands can be spelled out
+      const typed = key.name === "paste" || (key.name === "char" && isCommandMode());
+      const action = typed ? undefined : keymap.modes[mode]?.[keyId(key)];
+      if (action) return runAction(action);
+
+      if (key.name === "paste" || (key.name === "char" && isTyping())) {
+        if (insertText(key.name === "paste" ? key.text.trim() : key.text)) afterEdit();
       }
+      return false;
+    };
 
-      // Word mode - only available letters
-      if (/^[a-zA-Z]$/.test(char)) {
-        const idx = isLetterAvailable(char, pool, usedIndices);
-        if (idx !== -1) {
-          usedIndices.add(idx);
-          input += char.toUpperCase();
-          onUpdate(input, usedIndices);
-          renderInput();
-        }
-        return;
+    const handleKeys = (keys: Key[]) => {
+      for (const key of keys) {
+        if (handleKey(key)) return;
       }
     };
 
-    stdin.on("data", handleKey);
+    const handleData = (chunk: string) => {
+      clearTimeout(escapeTimer);
+      handleKeys(decoder.feed(chunk));
+      if (decoder.waiting) escapeTimer = setTimeout(() => handleKeys(decoder.flush()), ESCAPE_TIMEOUT_MS);
+    };
+
+    stdin.on("data", handleData);
     renderInput();
   });
 }
 
-async function doPlay(config: StoredConfig, minimal = false): Promise<void> {
-  const apiUrl = normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL);
-  const token = config.token;
-  const useMinimal = minimal || config.minimal || false;
-
-  if (!token) {
-    console.log("You need to log in first.");
-    return;
-  }
+const ANAGRAMA_MAX_LIVES = 5; // Match the website - 5 lives
+
+const ANAGRAMA_MODE: GameMode<GameStats> = {
+  id: "anagrama",
+  label: "Anagrama",
+  commands: gameCommands({ name: "/hint", desc: "Get a hint", help: "Reveal a letter" }),
+  load: loadAnagrama,
+  computeStats: computeAnagramaStats,
+  printStats,
+  solvedToday(stats, today) {
+    if (stats.lastPlayedDate !== today || !stats.lastPlayedWon) return null;
+    return `Anagrama (${stats.lastPlayedAttempts} attempt${stats.lastPlayedAttempts === 1 ? "" : "s"})`;
+  },
+  shareText(record) {
+    return generateShareText(record.dateKey, record.guesses, record.won, ANAGRAMA_MAX_LIVES);
+  },
+};
 
-  const spinner = new ColorSpinner("Loading today's puzzle...");
+/** Today's puzzle, or a past day's from the archive when `ctx.date` is set. */
+async function loadAnagrama(ctx: GameContext): Promise<GameLoad | null> {
+  const { config, client, minimal: useMinimal, date: archiveDate } = ctx;
+  const spinner = new ColorSpinner(archiveDate ? `Loading the puzzle for ${formatDateLong(archiveDate)}...` : "Loading today's puzzle...");
   spinner.start();
 
-  const puzzle = await apiGet<{
-    id?: string;
-    dateKey?: string;
-    length?: number;
-    scramble?: string;
-    letters?: string;
-    poolScramble?: string;
-    maxAttempts?: number;
-    session?: {
-      attempts?: number;
-      done?: boolean;
-      win?: boolean;
-      hintsUsed?: number;
-      guesses?: { word: string; marks: string[]; isTarget?: boolean; isAlt?: boolean }[];
-    };
-    error?: string;
-  }>(apiUrl, "/anagrama/api/puzzle", token);
+  let puzzle;
+  try {
+    puzzle = await withReauth(config, client, () => client.getPuzzle(archiveDate), { beforePrompt: () => spinner.stop() });
+  } catch (err) {
+    spinner.stop();
+    printApiError(err, "Failed to load puzzle.");
+    return null;
+  }
 
   spinner.stop();
 
   if (puzzle.status >= 400 || puzzle.data?.error) {
     console.log(chalk.red("Failed to load puzzle."));
     if (puzzle.data?.error) console.log(puzzle.data.error);
-    return;
+    return null;
+  }
+
+  // A server without the archive ignores `date` and hands back today's puzzle
+  if (archiveDate && puzzle.data.dateKey && puzzle.data.dateKey !== archiveDate) {
+    console.log(chalk.red(`The server doesn't offer the puzzle for ${formatDateLong(archiveDate)}.`));
+    return null;
   }
 
-  const dateKey = puzzle.data.dateKey || localDateKey();
-  const maxLives = 5; // Match the website - 5 lives
+  const dateKey = puzzle.data.dateKey || archiveDate || localDateKey();
+  const archive = !!archiveDate;
+  const headerLabels = archive ? { title: "Anagrama Archive", subtitle: formatDateLong(dateKey) } : undefined;
+  const maxLives = ANAGRAMA_MAX_LIVES;
   const scramble = puzzle.data.poolScramble || puzzle.data.scramble || puzzle.data.letters || "";
   const targetLength = puzzle.data.length || 5;
 
   // Restore progress from server (syncs with website)
-  let done = puzzle.data.session?.done || false;
   let attempts = puzzle.data.session?.attempts || 0;
-  const win = puzzle.data.session?.win || false;
 
   // If already completed (on website or CLI), show result + post-game menu
-  if (done) {
-    // Rebuild guess history from session for share text
-    const prevGuesses: { word: string; marks: string[] }[] = [];
-    if (Array.isArray(puzzle.data.session?.guesses)) {
-      for (const g of puzzle.data.session.guesses) {
-        prevGuesses.push({ word: g.word, marks: g.marks });
-      }
-    }
-
+  if (puzzle.data.session?.done) {
+    const win = puzzle.data.session.win || false;
     clearScreen();
     const formattedDate = formatDateLong(dateKey);
+    const which = archive ? "this puzzle" : "today's puzzle";
     console.log();
     if (win) {
-      console.log(chalk.green.bold("  🎉 You already solved today's puzzle!"));
+      console.log(chalk.green.bold(`  🎉 You already solved ${which}!`));
       console.log(chalk.gray(`     ${formattedDate} — Solved in ${attempts} ${attempts === 1 ? "attempt" : "attempts"}`));
     } else {
-      console.log(chalk.yellow("  You've already attempted today's puzzle."));
+      console.log(chalk.yellow(`  You've already attempted ${which}.`));
       console.log(chalk.gray(`     ${formattedDate} — Used all ${maxLives} lives`));
     }
     console.log();
 
-    const postAction = await showPostGameMenu(dateKey, prevGuesses, win, attempts, maxLives);
-    if (postAction === "quit") {
-      console.log(chalk.gray("  Goodbye!"));
-      process.exit(0);
-    }
-    return; // "home" — returns to main loop
+    // Archive days finished earlier come in through history sync, which knows whether they were on time
+    const record = anagramaRecordFromSession(dateKey, puzzle.data.session);
+    return { finished: archive ? { record: { ...record, archive: true }, save: false } : { record, save: true } };
   }
 
   // Restore guess history from server (syncs with website)
   const guessHistory: { word: string; marks: string[] }[] = [];
   let altFound = 0;
+  let hintsUsed = puzzle.data.session?.hintsUsed || 0;
+  let won = false;
 
   if (Array.isArray(puzzle.data.session?.guesses)) {
     for (const g of puzzle.data.session.guesses) {
@@ -1729,220 +4042,395 @@ async function doPlay(config: StoredConfig, minimal = false): Promise<void> {
     }
   }
 
-  let currentScramble = scramble;
-  const letterPool = currentScramble.toUpperCase().split("");
+  const session: GameSession = {
+    letters: scramble,
 
-  // Render game with optional used letters display
-  const renderGame = (shouldClear = false, usedIndices?: Set<number>, currentInput?: string) => {
-    if (shouldClear) {
-      clearScreen();
-    }
-    const livesLeft = Math.max(0, maxLives - attempts);
-    printGameHeader(dateKey, currentScramble, targetLength, livesLeft, altFound, useMinimal, usedIndices, currentInput);
+    render(frame, usedIndices, currentInput) {
+      const livesLeft = Math.max(0, maxLives - attempts);
+      printGameHeader(frame, dateKey, session.letters, targetLength, livesLeft, altFound, useMinimal, usedIndices, currentInput, headerLabels);
+
+      // Show guess history
+      if (guessHistory.length > 0) {
+        if (!useMinimal && !accessibleMode) {
+          frame.log(chalk.gray("  Previous guesses:"));
+        }
+        guessHistory.forEach((g, i) => frame.log(guessLine(i, g.word, g.marks)));
+        frame.log();
+      }
+    },
+
+    recall() {
+      return guessHistory.map((g) => g.word);
+    },
 
-    // Show guess history
-    if (guessHistory.length > 0) {
-      if (!useMinimal) {
-        console.log(chalk.gray("  Previous guesses:"));
+    async hint(redraw) {
+      let hintResult;
+      try {
+        hintResult = await withReauth(config, client, () => client.getHint(archiveDate));
+      } catch (err) {
+        redraw();
+        printApiError(err, "Couldn't get a hint.");
+        console.log();
+        return;
       }
-      for (const g of guessHistory) {
-        console.log(`    ${renderMarks(g.word, g.marks)}`);
+
+      redraw();
+
+      if (hintResult.status >= 400 || hintResult.data.error) {
+        console.log(chalk.yellow(`  ${hintResult.data.error || hintResult.data.message || "No hints available"}`));
+      } else if (hintResult.data.letter && hintResult.data.position !== undefined) {
+        hintsUsed++;
+        console.log(chalk.cyan(`  💡 Hint: Position ${hintResult.data.position + 1} is "${hintResult.data.letter.toUpperCase()}"`));
+      } else if (hintResult.data.hint) {
+        hintsUsed++;
+        console.log(chalk.cyan(`  💡 ${hintResult.data.hint}`));
+      } else if (hintResult.data.message) {
+        console.log(chalk.yellow(`  ${hintResult.data.message}`));
       }
       console.log();
-    }
-  };
+    },
 
-  // Initial render with clear
-  renderGame(true);
+    async guess(answer, redraw) {
+      let result;
+      try {
+        result = await withReauth(config, client, () => client.submitGuess(answer, archiveDate));
+      } catch (err) {
+        redraw();
+        printApiError(err, "Couldn't submit your guess.");
+        // Connectivity blips are worth retrying in place; anything else ends the game screen
+        if (isApiError(err) && (err.kind === "network" || err.kind === "timeout" || err.kind === "rate-limited")) {
+          console.log();
+          return;
+        }
+        return { stop: true };
+      }
 
-  // Print command hint
-  if (!useMinimal) {
-    console.log(chalk.gray("    / for shortcuts"));
-  }
-  console.log();
+      const marks = result.data.marks || [];
 
-  while (!done) {
-    // Interactive input with live letter tracking
-    const { input: answer, isCommand } = await interactiveInput(
-      letterPool,
-      (input, usedIndices) => {
-        // Re-render game to show used letters
-        renderGame(true, usedIndices, input);
-        if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-        console.log();
+      // Track alternate anagrams
+      if (result.data.isAltAnagram || (result.data.accepted && !result.data.isTarget)) {
+        altFound++;
       }
-    );
 
-    if (!answer) continue;
+      // Add to history if it was a valid attempt with marks
+      if (marks.length > 0) {
+        guessHistory.push({ word: answer, marks });
+      }
 
-    // Handle commands
-    if (isCommand || answer.startsWith("/")) {
-      const cmd = answer.startsWith("/") ? answer.slice(1).split(" ")[0] : answer;
-      switch (cmd) {
-        case "help":
-        case "h":
-          renderGame(true);
-          printCommands();
-          console.log(chalk.gray("    Press any key to continue..."));
-          // Wait for a keypress before continuing
-          await new Promise<void>((resolve) => {
-            const stdin = process.stdin;
-            stdin.setRawMode(true);
-            stdin.resume();
-            stdin.once("data", () => {
-              stdin.setRawMode(false);
-              resolve();
-            });
-          });
-          renderGame(true);
-          if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-          console.log();
-          continue;
-        case "hint": {
-          const hintResult = await apiPost<{
-            hint?: string;
-            position?: number;
-            letter?: string;
-            message?: string;
-            error?: string;
-          }>(apiUrl, "/anagrama/api/hint", {}, token);
-
-          renderGame(true);
-          if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-          console.log();
+      // Only count attempts for wrong guesses (not alt anagrams)
+      if (!result.data.accepted && !result.data.isAltAnagram) {
+        attempts = result.data.attempts ?? (attempts + 1);
+      }
+      const done = result.data.done ?? false;
 
-          if (hintResult.status >= 400 || hintResult.data.error) {
-            console.log(chalk.yellow(`  ${hintResult.data.error || hintResult.data.message || "No hints available"}`));
-          } else if (hintResult.data.letter && hintResult.data.position !== undefined) {
-            console.log(chalk.cyan(`  💡 Hint: Position ${hintResult.data.position + 1} is "${hintResult.data.letter.toUpperCase()}"`));
-          } else if (hintResult.data.hint) {
-            console.log(chalk.cyan(`  💡 ${hintResult.data.hint}`));
-          } else if (hintResult.data.message) {
-            console.log(chalk.yellow(`  ${hintResult.data.message}`));
-          }
-          console.log();
-          continue;
+      // Re-render with updated stats
+      redraw();
+
+      // Show guess result inline
+      if (marks.length > 0) {
+        console.log(guessLine(guessHistory.length - 1, answer, marks));
+      }
+
+      // Show result message
+      if (result.data.message) {
+        const msg = result.data.message;
+        if (result.data.isTarget) {
+          // Will show victory below
+        } else if (result.data.isAltAnagram || result.data.accepted) {
+          console.log(chalk.cyan(`    ✓ ${msg}`));
+        } else if (msg.includes("Not") || msg.includes("Invalid")) {
+          console.log(chalk.red(`    ✗ ${msg}`));
+        } else {
+          console.log(chalk.yellow(`    ${msg}`));
         }
-        case "exit":
-        case "back":
-        case "menu":
-          console.log(chalk.gray("  Returning to menu..."));
-          return;
-        case "quit":
-        case "q":
-          console.log(chalk.gray("  Goodbye!"));
-          process.exit(0);
-        case "shuffle":
-        case "s":
-          // Shuffle letters visually
-          currentScramble = currentScramble.split("").sort(() => Math.random() - 0.5).join("");
-          letterPool.length = 0;
-          letterPool.push(...currentScramble.toUpperCase().split(""));
-          renderGame(true);
-          if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-          console.log();
-          // Print message below input
-          process.stdout.write("\n" + chalk.gray("  Letters shuffled!") + "\x1b[1A\r");
-          continue;
-        default:
-          renderGame(true);
-          if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-          console.log();
-          // Print message below input
-          process.stdout.write("\n" + chalk.yellow(`  Unknown command: /${cmd}. Type /help for commands.`) + "\x1b[1A\r");
-          continue;
       }
-    }
 
-    const result = await apiPost<{
-      validWord?: boolean;
-      accepted?: boolean;
-      valid?: boolean;
-      isTarget?: boolean;
-      isAltAnagram?: boolean;
-      marks?: string[];
-      attempts?: number;
-      done?: boolean;
-      message?: string;
-    }>(apiUrl, "/anagrama/api/guess", { guess: answer }, token);
+      // Show lives remaining after wrong guess
+      if (!result.data.accepted && !result.data.isAltAnagram && !done) {
+        printLives(Math.max(0, maxLives - attempts), maxLives);
+      }
+
+      console.log();
+
+      if (!done) return;
 
-    if (result.status >= 500) {
-      renderGame(true);
-      if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
+      won = !!result.data.isTarget;
+      if (won) {
+        console.log(chalk.bold.green("  🎉 You found it!"));
+        console.log(chalk.gray(`     The word was: ${chalk.white.bold(answer.toUpperCase())}`));
+      } else {
+        console.log(chalk.yellow("  Game over. Better luck next time!"));
+      }
       console.log();
-      console.log(chalk.red("  Server error."));
-      break;
+      return { done: true };
+    },
+  };
+
+  return {
+    session,
+    result: () => ({
+      record: {
+        game: "anagrama",
+        dateKey,
+        won,
+        guesses: guessHistory,
+        attempts,
+        livesLeft: Math.max(0, maxLives - attempts),
+        hintsUsed,
+        altFound,
+        source: "cli",
+        ...(archive ? { archive: true } : {}),
+      },
+      save: true,
+    }),
+  };
+}
+
+// ── Practice ────────────────────────────────────────────────────────────────
+// Offline rounds from the bundled word list (see practice.ts). Plays like the
+// daily puzzle but never calls the server and only writes practice.jsonl.
+
+type PracticeOptions = { length: number; rounds: number; seed: string };
+
+async function readPracticeStats(): Promise<PracticeStats> {
+  return computePracticeStats(await readPracticeLog(profilePaths().practicePath));
+}
+
+function printPracticeStats(stats: PracticeStats): void {
+  const winPct = stats.roundsPlayed > 0 ? Math.round((stats.roundsWon / stats.roundsPlayed) * 100) : 0;
+
+  if (accessibleMode) {
+    console.log();
+    console.log("Practice statistics.");
+    console.log(`Played ${stats.roundsPlayed} ${stats.roundsPlayed === 1 ? "round" : "rounds"}, won ${winPct}%. Current run ${stats.currentRun}, best run ${stats.bestRun}.`);
+    for (const line of describeDistribution(stats.guessDistribution)) console.log(line);
+    for (const len of Object.keys(stats.byLength).sort((a, b) => Number(a) - Number(b))) {
+      const { played, won } = stats.byLength[len];
+      console.log(`${len} letters: ${won} of ${played} solved.`);
     }
+    console.log();
+    return;
+  }
+
+  const lines: string[] = [];
+  lines.push(
+    accent.bold(String(stats.roundsPlayed).padStart(4)) + "      " +
+    accent.bold(String(winPct + "%").padStart(5)) + "      " +
+    accent.bold(String(stats.currentRun).padStart(4)) + "      " +
+    accent.bold(String(stats.bestRun).padStart(4))
+  );
+  lines.push(dim("Rounds    Win %     Run      Best"));
+  lines.push("");
 
-    const marks = result.data.marks || [];
+  const maxCount = Math.max(1, ...stats.guessDistribution);
+  const maxBarWidth = 22;
+  lines.push(dim("Guess distribution"));
+  for (let i = 0; i < stats.guessDistribution.length; i++) {
+    const count = stats.guessDistribution[i] || 0;
+    const barLen = Math.max(1, Math.round((count / maxCount) * maxBarWidth));
+    lines.push(dim(String(i + 1)) + " " + accent("█".repeat(barLen)) + " " + fg(String(count)));
+  }
 
-    // Track alternate anagrams
-    if (result.data.isAltAnagram || (result.data.accepted && !result.data.isTarget)) {
-      altFound++;
+  const lengths = Object.keys(stats.byLength).sort((a, b) => Number(a) - Number(b));
+  if (lengths.length > 0) {
+    lines.push("");
+    lines.push(dim("By word length"));
+    for (const len of lengths) {
+      const { played, won } = stats.byLength[len];
+      lines.push(fg(`${len} letters`.padEnd(11)) + accent(`${won}/${played}`) + dim(" solved"));
     }
+  }
+
+  console.log();
+  console.log(box(lines.join("\n"), {
+    ...boxenTheme(),
+    borderStyle: "round",
+    title: accent.bold(" Practice "),
+    titleAlignment: "left",
+    padding: { left: 1, right: 1, top: 1, bottom: 1 },
+    margin: { left: 2 },
+  }));
+  console.log();
+}
 
-    // Add to history if it was a valid attempt with marks
-    if (marks.length > 0) {
-      guessHistory.push({ word: answer, marks });
-    }
+/** Validate `--length`, `--rounds` and `--seed`; returns an error message for bad input. */
+function parsePracticeOptions(raw: { length?: string; rounds?: string; seed?: string }): PracticeOptions | string {
+  const length = raw.length === undefined ? DEFAULT_PRACTICE_LENGTH : Number(raw.length);
+  if (!PRACTICE_LENGTHS.includes(length)) {
+    return `Word length must be one of ${PRACTICE_LENGTHS.join(", ")}.`;
+  }
+  const rounds = raw.rounds === undefined ? DEFAULT_PRACTICE_ROUNDS : Number(raw.rounds);
+  if (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_PRACTICE_ROUNDS) {
+    return `Rounds must be a whole number from 1 to ${MAX_PRACTICE_ROUNDS}.`;
+  }
+  const seed = raw.seed?.trim() || randomPracticeSeed();
+  return { length, rounds, seed };
+}
 
-    // Only count attempts for wrong guesses (not alt anagrams)
-    if (!result.data.accepted && !result.data.isAltAnagram) {
-      attempts = result.data.attempts ?? (attempts + 1);
-    }
-    done = result.data.done ?? done;
+async function doPractice(config: StoredConfig, opts: PracticeOptions, minimal = false): Promise<void> {
+  try {
+    await playPracticeRounds(config, opts, minimal);
+  } finally {
+    screen.leave();
+  }
+}
 
-    // Re-render with updated stats
-    renderGame(true);
-    if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-    console.log();
+async function playPracticeRounds(config: StoredConfig, opts: PracticeOptions, minimal: boolean): Promise<void> {
+  const useMinimal = minimal || config.minimal || false;
+  const keymap = buildKeymap(config.keymap, config.keybindings);
+  const practicePath = profilePaths().practicePath;
+  const rounds = createPracticeRounds(opts);
+  let solved = 0;
+
+  for (let r = 0; r < rounds.length; r++) {
+    const round = rounds[r];
+    const subtitle = `Round ${r + 1} of ${rounds.length} · ${opts.length} letters · seed ${opts.seed}`;
+    const guessHistory: { word: string; marks: string[] }[] = [];
+    const revealed: number[] = [];
+    let attempts = 0;
+    let altFound = 0;
+    let won = false;
+
+    const session: GameSession = {
+      letters: round.scramble,
+
+      render(frame, usedIndices, currentInput) {
+        const livesLeft = Math.max(0, PRACTICE_MAX_LIVES - attempts);
+        printGameHeader(frame, "", session.letters, round.word.length, livesLeft, altFound, useMinimal, usedIndices, currentInput, {
+          title: "Practice",
+          subtitle,
+        });
+        if (guessHistory.length > 0) {
+          if (!useMinimal && !accessibleMode) frame.log(chalk.gray("  Previous guesses:"));
+          guessHistory.forEach((g, i) => frame.log(guessLine(i, g.word, g.marks)));
+          frame.log();
+        }
+      },
+
+      recall() {
+        return guessHistory.map((g) => g.word);
+      },
+
+      async hint(redraw) {
+        const hint = practiceHint(round, revealed);
+        redraw();
+        if (hint) {
+          revealed.push(hint.position);
+          console.log(chalk.cyan(`  💡 Hint: Position ${hint.position + 1} is "${hint.letter.toUpperCase()}"`));
+        } else {
+          console.log(chalk.yellow("  No more hints for this word."));
+        }
+        console.log();
+      },
 
-    // Show guess result inline
-    if (marks.length > 0) {
-      console.log(`    ${renderMarks(answer, marks)}`);
-    }
+      async guess(answer, redraw) {
+        const guess = scorePracticeGuess(round, answer);
+        if (guess.result === "invalid") {
+          redraw();
+          console.log(chalk.red(`    ✗ Use all ${round.word.length} letters.`));
+          console.log();
+          return;
+        }
 
-    // Show result message
-    if (result.data.message) {
-      const msg = result.data.message;
-      if (result.data.isTarget) {
-        // Will show victory below
-      } else if (result.data.isAltAnagram || result.data.accepted) {
-        console.log(chalk.cyan(`    ✓ ${msg}`));
-      } else if (msg.includes("Not") || msg.includes("Invalid")) {
-        console.log(chalk.red(`    ✗ ${msg}`));
-      } else {
-        console.log(chalk.yellow(`    ${msg}`));
-      }
-    }
+        if (guess.result === "alternate") {
+          const repeat = guessHistory.some((g) => g.word === answer);
+          if (!repeat) {
+            guessHistory.push({ word: answer, marks: guess.marks });
+            altFound++;
+          }
+          redraw();
+          // The board shows the guess; accessible mode doesn't redraw it, so read it out
+          if (accessibleMode && !repeat) console.log(guessLine(guessHistory.length - 1, answer, guess.marks));
+          console.log(chalk.cyan(repeat ? "    ✓ Already found — keep looking." : "    ✓ Nice — a valid anagram, but not the word."));
+          console.log();
+          return;
+        }
 
-    // Show lives remaining after wrong guess
-    if (!result.data.accepted && !result.data.isAltAnagram && !done) {
-      const livesLeft = Math.max(0, maxLives - attempts);
-      console.log(chalk.gray(`    Lives: `) + accent("●".repeat(livesLeft)) + chalk.gray("○".repeat(Math.max(0, 5 - livesLeft))));
-    }
+        guessHistory.push({ word: answer, marks: guess.marks });
+        if (guess.result === "wrong") {
+          attempts++;
+          if (attempts < PRACTICE_MAX_LIVES) {
+            redraw();
+            if (accessibleMode) console.log(guessLine(guessHistory.length - 1, answer, guess.marks));
+            console.log(chalk.yellow("    Not the word."));
+            printLives(PRACTICE_MAX_LIVES - attempts, PRACTICE_MAX_LIVES);
+            console.log();
+            return;
+          }
+        }
 
-    console.log();
+        won = guess.result === "correct";
+        redraw();
+        if (accessibleMode) console.log(guessLine(guessHistory.length - 1, answer, guess.marks));
+        if (won) {
+          console.log(chalk.bold.green("  🎉 You found it!"));
+        } else {
+          console.log(chalk.yellow("  Out of lives."));
+        }
+        console.log(chalk.gray(`     The word was: ${chalk.white.bold(round.word.toUpperCase())}`));
+        console.log();
+        return { done: true };
+      },
+    };
 
-    if (done) {
-      const isWin = !!result.data.isTarget;
-      if (isWin) {
-        console.log(chalk.bold.green("  🎉 You found it!"));
-        console.log(chalk.gray(`     The word was: ${chalk.white.bold(answer.toUpperCase())}`));
-      } else {
-        console.log(chalk.yellow("  Game over. Better luck next time!"));
-      }
-      console.log();
+    if (!(await runTurns(session, ANAGRAMA_MODE.commands, { minimal: useMinimal, keymap }))) return;
+    if (won) solved++;
+
+    await appendPracticeRecord(practicePath, {
+      length: opts.length,
+      word: round.word,
+      won,
+      attempts,
+      hintsUsed: revealed.length,
+      altFound,
+      seed: opts.seed,
+      round: r + 1,
+    });
 
-      // Show stats, share, and post-game menu
-      const postAction = await showPostGameMenu(dateKey, guessHistory, isWin, attempts, maxLives);
-      if (postAction === "quit") {
+    if (r < rounds.length - 1) {
+      const next = await choose({
+        message: "What next?",
+        choices: [
+          { name: "Next round", value: "next" as const },
+          { name: "Home", value: "home" as const },
+          { name: "Quit", value: "quit" as const },
+        ],
+      });
+      if (next === "quit") {
+        screen.leave();
         console.log(chalk.gray("  Goodbye!"));
         process.exit(0);
       }
-      return; // "home" — returns to main loop
+      if (next === "home") return;
     }
   }
+
+  console.log(accent.bold(`  Practice complete — solved ${solved} of ${rounds.length}.`));
+  console.log(chalk.gray(`  Replay these words: anagrama practice --length ${opts.length} --rounds ${opts.rounds} --seed ${opts.seed}`));
+  printPracticeStats(await readPracticeStats());
+
+  const action = await choose({
+    message: "What next?",
+    choices: [
+      { name: "Home", value: "home" as const },
+      { name: "Quit", value: "quit" as const },
+    ],
+  });
+  if (action === "quit") {
+    screen.leave();
+    console.log(chalk.gray("  Goodbye!"));
+    process.exit(0);
+  }
+}
+
+/** Menu entry: pick a word length, then play a fresh seeded session. */
+async function doPracticeFromMenu(config: StoredConfig, minimal = false): Promise<void> {
+  const length = await choose({
+    message: "Word length",
+    default: DEFAULT_PRACTICE_LENGTH,
+    choices: PRACTICE_LENGTHS.map((n) => ({ name: `${n} letters`, value: n })),
+  });
+  await doPractice(config, { length, rounds: DEFAULT_PRACTICE_ROUNDS, seed: randomPracticeSeed() }, minimal);
 }
 
 // ── Defineagram ─────────────────────────────────────────────────────────────
@@ -1966,6 +4454,16 @@ function generateDefineagramShareText(
 function printDefineagramStats(stats: DefineagramStats): void {
   const winPct = stats.gamesPlayed > 0 ? Math.round((stats.gamesWon / stats.gamesPlayed) * 100) : 0;
 
+  if (accessibleMode) {
+    console.log();
+    console.log("Defineagram statistics.");
+    console.log(`Played ${stats.gamesPlayed}, won ${winPct}%. Current streak ${stats.currentStreak}, best streak ${stats.maxStreak}.`);
+    if (stats.bestTimeMs !== null) console.log(`Best time ${formatTimeMs(stats.bestTimeMs)}.`);
+    if (stats.avgTimeMs !== null) console.log(`Average time ${formatTimeMs(stats.avgTimeMs)}.`);
+    console.log();
+    return;
+  }
+
   const lines: string[] = [];
   lines.push(
     accent.bold(String(stats.gamesPlayed).padStart(4)) + "      " +
@@ -1984,7 +4482,7 @@ function printDefineagramStats(stats: DefineagramStats): void {
   }
 
   console.log();
-  console.log(boxen(lines.join("\n"), {
+  console.log(box(lines.join("\n"), {
     ...boxenTheme(),
     borderStyle: "round",
     title: accent.bold(" Defineagram Stats "),
@@ -1995,60 +4493,43 @@ function printDefineagramStats(stats: DefineagramStats): void {
   console.log();
 }
 
-async function showDefineagramPostGameMenu(
-  dateKey: string,
-  won: boolean,
-  totalTimeMs: number,
-  wrongGuesses: number,
-  hintsUsed: number,
-): Promise<"home" | "quit"> {
-  const stats = await updateDefineagramStats(won, totalTimeMs, dateKey);
-  printDefineagramStats(stats);
-
-  if (won) {
-    const shareText = generateDefineagramShareText(dateKey, totalTimeMs, wrongGuesses, hintsUsed);
-    const previewLines = shareText.split("\n").map((l) => chalk.gray("    " + l));
-    console.log(previewLines.join("\n"));
-    console.log();
-  }
-
-  console.log(chalk.gray(`  Next puzzle in ${accent(getNextPuzzleCountdown())}`));
-  console.log();
+/** A time penalty in Defineagram, listed under the clock. */
+type DefineagramPenalty = {
+  kind: "wrong" | "hint";
+  label: string; // the wrong guess, or "Hint 2"
+  ms: number;
+  /** When it was given in this run, so it can flash as it lands. Resumed penalties have none. */
+  at?: number;
+};
 
-  const choices: { name: string; value: "share" | "home" | "quit" }[] = [];
-  if (won) choices.push({ name: "Share results", value: "share" });
-  choices.push({ name: "Home", value: "home" });
-  choices.push({ name: "Quit", value: "quit" });
+const PENALTY_FLASH_MS = 1500;
+// Older penalties are summed up in one line past this many
+const MAX_PENALTY_LINES = 5;
 
-  const action = await select({ message: "What next?", choices });
+const isFlashing = (penalty: DefineagramPenalty) => penalty.at !== undefined && Date.now() - penalty.at < PENALTY_FLASH_MS;
 
-  if (action === "share") {
-    const shareText = generateDefineagramShareText(dateKey, totalTimeMs, wrongGuesses, hintsUsed);
-    const copied = await copyToClipboard(shareText);
-    if (copied) {
-      console.log(chalk.green("  Copied to clipboard!"));
-    } else {
-      console.log();
-      if (process.platform === "linux") {
-        console.log(chalk.yellow("  Tip: install xclip for clipboard support (sudo apt install xclip)"));
-      }
-      console.log(chalk.white("  Copy this:\n"));
-      console.log(shareText.split("\n").map((l) => "    " + l).join("\n"));
-      console.log();
-    }
-    const next = await select({
-      message: "What next?",
-      choices: [
-        { name: "Home", value: "home" as const },
-        { name: "Quit", value: "quit" as const },
-      ],
-    });
-    return next;
+/** The clock as "time + penalties", one line per penalty, newest last, in at most `maxLines` penalty lines. */
+function penaltyBreakdown(elapsedMs: number, penalties: DefineagramPenalty[], timer: boolean, maxLines = MAX_PENALTY_LINES): string[] {
+  const row = (label: string, value: string) => `${label.padEnd(24)}${value.padStart(6)}`;
+  const lines: string[] = [];
+  if (timer) lines.push(dim(row("Time", formatTimeMs(elapsedMs))));
+
+  let shown = penalties;
+  if (penalties.length > maxLines) {
+    const earlier = penalties.slice(0, penalties.length - maxLines + 1);
+    shown = penalties.slice(earlier.length);
+    const earlierMs = earlier.reduce((sum, p) => sum + p.ms, 0);
+    lines.push(dim(row(`${earlier.length} earlier penalties`, `+${earlierMs / 1000}s`)));
   }
-  return action;
+  for (const p of shown) {
+    const text = row(p.kind === "hint" ? p.label : `✗ ${p.label}`, `+${p.ms / 1000}s`);
+    lines.push(isFlashing(p) ? bgColor("#C62828", "bgRed", mono.inverse)(chalk.white.bold(text)) : chalk.red(text));
+  }
+  return lines;
 }
 
 function printDefineagramHeader(
+  frame: Frame,
   dateKey: string,
   definition: string,
   partOfSpeech: string | undefined,
@@ -2057,44 +4538,78 @@ function printDefineagramHeader(
   elapsedMs: number,
   wrongGuesses: number,
   penaltyMs: number,
+  penalties: DefineagramPenalty[],
   hints: string[],
   minimal: boolean,
+  timer: boolean,
+  paused: boolean,
   letters: string,
   usedIndices?: Set<number>,
   currentInput?: string,
+  penaltyLines = MAX_PENALTY_LINES,
 ): void {
-  const border = chalk.hex(getTheme().border);
+  const border = themeColor("border");
+
+  if (accessibleMode) {
+    frame.log(`Defineagram, ${formatDateLong(dateKey)}. Difficulty ${difficulty}.`);
+    frame.log(`Definition: ${partOfSpeech ? `(${partOfSpeech}) ` : ""}${definition}`);
+    for (const h of hints) frame.log(`Hint: ${h}`);
+    frame.log(`Find the ${wordLength}-letter word in the letters ${letters.toUpperCase().split("").join(" ")}.`);
+    if (timer) frame.log(describeDefineagramTime(elapsedMs, wrongGuesses, penaltyMs));
+    else if (penaltyMs > 0) frame.log(`Penalties: ${formatTimeMs(penaltyMs)}.`);
+    return;
+  }
+
+  // The newest penalty shows next to the clock while it flashes
+  const landed = penalties.length > 0 && isFlashing(penalties[penalties.length - 1]) ? penalties[penalties.length - 1] : null;
+  const landedLabel = landed ? " " + chalk.red.bold(`+${landed.ms / 1000}s`) : "";
 
   if (minimal) {
-    console.log();
-    console.log(bgLine(dim(`  ${dateKey}`) + dim(` · `) + accent(`⏱ ${formatTimeMs(elapsedMs + penaltyMs)}`)));
-    if (wrongGuesses > 0) console.log(bgLine(dim(`  ✗ ${wrongGuesses} (+${wrongGuesses * 5}s)`)));
-    console.log();
+    frame.log();
+    const clock = timer ? dim(` · `) + accent(`⏱ ${formatTimeMs(elapsedMs + penaltyMs)}`) + landedLabel : "";
+    frame.log(bgLine(dim(`  ${dateKey}`) + clock));
+    if (penaltyMs > 0) {
+      const time = timer ? `${formatTimeMs(elapsedMs)} + ` : "";
+      frame.log(bgLine(dim(`  ${time}${formatTimeMs(penaltyMs)} penalties (✗ ${wrongGuesses}, hints ${hints.length})`)));
+    }
+    frame.log();
+    // A paused board hides the definition, hints and letters, so the pause can't be used to think
+    if (paused) {
+      frame.log(bgLine(accent("  ⏸ Paused")));
+      frame.log();
+      return;
+    }
     // Definition
     const posLabel = partOfSpeech ? `${partOfSpeech}. ` : "";
-    console.log(bgLine(`  ${dim(posLabel)}${fg(definition)}`));
-    console.log();
-    console.log(bgLine(`  ${accent.bold(letters.toUpperCase().split("").join(" "))}`));
-    console.log();
+    frame.log(bgLine(`  ${dim(posLabel)}${fg(definition)}`));
+    frame.log();
+    frame.log(bgLine(`  ${accent.bold(letters.toUpperCase().split("").join(" "))}`));
+    frame.log();
     return;
   }
 
   const formattedDate = formatDateLong(dateKey);
 
   // Timer line
-  const timerStr = formatTimeMs(elapsedMs + penaltyMs);
   const diffLabel = difficulty.charAt(0).toUpperCase() + difficulty.slice(1);
-  let statusLine = dim(`${diffLabel}`) + dim(" · ") + accent(`⏱ ${timerStr}`);
+  let statusLine = dim(`${diffLabel}`);
+  if (timer) {
+    statusLine += dim(" · ") + accent(`${paused ? "⏸" : "⏱"} ${formatTimeMs(elapsedMs + penaltyMs)}`) + landedLabel;
+  }
   if (wrongGuesses > 0) {
-    statusLine += dim(" · ") + chalk.red(`✗ ${wrongGuesses}`) + dim(` (+${wrongGuesses * 5}s)`);
+    statusLine += dim(" · ") + chalk.red(`✗ ${wrongGuesses}`);
   }
 
   const headerLines: string[] = [];
   headerLines.push(dim(`${formattedDate} (ET)`));
   headerLines.push(statusLine);
+  if (penalties.length > 0) {
+    headerLines.push("");
+    headerLines.push(...penaltyBreakdown(elapsedMs, penalties, timer, penaltyLines));
+  }
 
-  console.log();
-  console.log(boxen(headerLines.join("\n"), {
+  frame.log();
+  frame.log(box(headerLines.join("\n"), {
     ...boxenTheme(),
     borderStyle: "round",
     title: accent.bold(" Defineagram "),
@@ -2103,19 +4618,26 @@ function printDefineagramHeader(
     margin: { left: 2 },
     width: 50,
   }));
-  console.log();
+  frame.log();
+
+  if (paused) {
+    frame.log(`    ${accent.bold("⏸ Paused")}${dim(" — the clock is stopped")}`);
+    frame.log();
+    frame.log(chalk.gray("  ─".repeat(25)));
+    return;
+  }
 
   // Definition
   const posLabel = partOfSpeech ? chalk.italic(dim(`${partOfSpeech}. `)) : "";
-  console.log(`    ${posLabel}${chalk.italic(fg(definition))}`);
-  console.log();
+  frame.log(`    ${posLabel}${chalk.italic(fg(definition))}`);
+  frame.log();
 
   // Hints
   if (hints.length > 0) {
     for (const h of hints) {
-      console.log(`    ${chalk.yellow("💡")} ${chalk.yellow.italic(h)}`);
+      frame.log(`    ${chalk.yellow("💡")} ${chalk.yellow.italic(h)}`);
     }
-    console.log();
+    frame.log();
   }
 
   // Target word slots
@@ -2128,104 +4650,67 @@ function printDefineagramHeader(
     return border("│") + dim(" · ") + border("│");
   }).join(" ");
   const botRow = "    " + Array(wordLength).fill(border("└───┘")).join(" ");
-  console.log(topRow);
-  console.log(midRow);
-  console.log(botRow);
-  console.log();
+  frame.log(topRow);
+  frame.log(midRow);
+  frame.log(botRow);
+  frame.log();
 
   // Letter tiles
-  console.log(dim("  Letters:"));
-  console.log();
+  frame.log(dim("  Letters:"));
+  frame.log();
   const letterArr = letters.toUpperCase().split("");
   const row1 = letterArr.slice(0, 6).map((ch, i) => renderLetterTileWithState(ch, usedIndices?.has(i) || false)).join("  ");
   const row2 = letterArr.slice(6).map((ch, i) => renderLetterTileWithState(ch, usedIndices?.has(i + 6) || false)).join("  ");
 
-  console.log(`      ${row1}`);
+  frame.log(`      ${row1}`);
   if (row2.trim()) {
-    console.log(`        ${row2}`);
+    frame.log(`        ${row2}`);
   }
-  console.log();
-  console.log(chalk.gray("  ─".repeat(25)));
-}
-
-const DEFINEAGRAM_COMMANDS = [
-  { name: "/help", desc: "Show all commands" },
-  { name: "/hint", desc: "Get a hint (+10s)" },
-  { name: "/reveal", desc: "Show the answer (forfeit)" },
-  { name: "/exit", desc: "Return to menu" },
-  { name: "/quit", desc: "Exit the app" },
-  { name: "/shuffle", desc: "Shuffle the letters" },
-];
-
-function printDefineagramCommands(): void {
-  const lines: string[] = [];
-  lines.push(accent("/help     ") + fg("Show this help"));
-  lines.push(accent("/hint     ") + fg("Get a hint (+10s penalty)"));
-  lines.push(accent("/reveal   ") + fg("Show the answer (forfeit)"));
-  lines.push(accent("/shuffle  ") + fg("Shuffle the letters"));
-  lines.push(accent("/exit     ") + fg("Return to menu"));
-  lines.push(accent("/quit     ") + fg("Exit the app"));
-
-  console.log();
-  console.log(boxen(lines.join("\n"), {
-    ...boxenTheme(),
-    borderStyle: "round",
-    title: accent.bold(" Commands "),
-    titleAlignment: "left",
-    padding: { left: 1, right: 1, top: 1, bottom: 1 },
-    margin: { left: 2 },
-  }));
-  console.log();
+  frame.log();
+  frame.log(chalk.gray("  ─".repeat(25)));
 }
 
-async function doPlayDefineagram(config: StoredConfig, minimal = false): Promise<void> {
-  const apiUrl = normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL);
-  const token = config.token;
-  const useMinimal = minimal || config.minimal || false;
-
-  if (!token) {
-    console.log("You need to log in first.");
-    return;
-  }
+const DEFINEAGRAM_MODE: GameMode<DefineagramStats> = {
+  id: "defineagram",
+  label: "Defineagram",
+  commands: gameCommands(
+    { name: "/hint", desc: "Get a hint (+10s)", help: "Get a hint (+10s penalty)" },
+    { name: "/reveal", desc: "Show the answer (forfeit)", help: "Show the answer (forfeit)" },
+    { name: "/pause", desc: "Pause the clock", help: "Pause the clock and hide the puzzle" },
+  ),
+  load: loadDefineagram,
+  computeStats: computeDefineagramStats,
+  printStats: printDefineagramStats,
+  solvedToday(stats, today) {
+    if (stats.lastPlayedDate !== today || !stats.lastPlayedWon) return null;
+    return `Defineagram (${formatTimeMs(stats.lastPlayedTimeMs)})`;
+  },
+  shareText(record) {
+    if (!record.won) return null;
+    return generateDefineagramShareText(record.dateKey, record.timeMs || 0, record.wrongGuesses || 0, record.hintsUsed);
+  },
+};
 
+async function loadDefineagram(ctx: GameContext): Promise<GameLoad | null> {
+  const { config, client, minimal: useMinimal } = ctx;
   const spinner = new ColorSpinner("Loading today's Defineagram...");
   spinner.start();
 
-  const puzzle = await apiGet<{
-    id?: string;
-    dateKey?: string;
-    letters?: string;
-    definition?: string;
-    wordLength?: number;
-    difficulty?: string;
-    extraLetters?: number;
-    phonetic?: string;
-    partOfSpeech?: string;
-    hintsAvailable?: number;
-    session?: {
-      completed?: boolean;
-      revealed?: boolean;
-      attempts?: number;
-      timeMs?: number;
-      wrongGuesses?: number;
-      penaltyMs?: number;
-      totalTimeMs?: number;
-      startedAt?: string;
-      hintsUsed?: number;
-      usedHints?: string[];
-      inProgressWrongGuesses?: number;
-      inProgressPenaltyMs?: number;
-      word?: string;
-    };
-    error?: string;
-  }>(apiUrl, "/api/definagram/daily", token);
+  let puzzle;
+  try {
+    puzzle = await withReauth(config, client, () => client.getDefineagramDaily(), { beforePrompt: () => spinner.stop() });
+  } catch (err) {
+    spinner.stop();
+    printApiError(err, "Failed to load puzzle.");
+    return null;
+  }
 
   spinner.stop();
 
   if (puzzle.status >= 400 || puzzle.data?.error) {
     console.log(chalk.red("Failed to load puzzle."));
     if (puzzle.data?.error) console.log(puzzle.data.error);
-    return;
+    return null;
   }
 
   const dateKey = puzzle.data.dateKey || puzzle.data.id || localDateKey();
@@ -2258,233 +4743,212 @@ async function doPlayDefineagram(config: StoredConfig, minimal = false): Promise
     }
     console.log();
 
-    const won = !!(sess.completed && !sess.revealed);
-    const totalMs = sess.totalTimeMs || sess.timeMs || 0;
-    const postAction = await showDefineagramPostGameMenu(
-      dateKey, won, totalMs, sess.wrongGuesses || 0, sess.hintsUsed || 0,
-    );
-    if (postAction === "quit") {
-      console.log(chalk.gray("  Goodbye!"));
-      process.exit(0);
-    }
-    return;
+    return { finished: { record: defineagramRecordFromSession(dateKey, sess), save: true } };
   }
 
   // Record start time on server
-  await apiPost(apiUrl, "/api/definagram/daily/start", {
-    puzzleId: dateKey,
-    difficulty,
-  }, token).catch(() => {});
+  await client.startDefineagram(dateKey, difficulty).catch(() => {});
 
   // Resume state from server
   let wrongGuesses = puzzle.data.session?.inProgressWrongGuesses || puzzle.data.session?.wrongGuesses || 0;
   let penaltyMs = puzzle.data.session?.inProgressPenaltyMs || puzzle.data.session?.penaltyMs || 0;
   let hintsUsed = puzzle.data.session?.hintsUsed || 0;
+  const wrongGuessWords: string[] = [];
   const currentHints: string[] = [...(puzzle.data.session?.usedHints || [])];
+  // Which wrong guesses and hints came first isn't known for a resumed game
+  const penalties: DefineagramPenalty[] = [
+    ...Array.from({ length: wrongGuesses }, (): DefineagramPenalty => ({ kind: "wrong", label: "Wrong guess", ms: 5000 })),
+    ...currentHints.map((_, i): DefineagramPenalty => ({ kind: "hint", label: `Hint ${i + 1}`, ms: 10000 })),
+  ];
 
   // Timer: resume from server startedAt if available
   const serverStartedAt = puzzle.data.session?.startedAt;
   const startTime = serverStartedAt ? new Date(serverStartedAt).getTime() : Date.now();
+  // A game left while paused stays paused until now, so that time isn't counted either
+  let pausedMs = defineagramPausedMs(puzzle.data.session);
+  let pausedAt: number | null = null;
 
-  let currentLetters = letters;
-  const letterPool = currentLetters.toUpperCase().split("");
-  let done = false;
+  let won = false;
+  let totalTimeMs = 0;
 
-  const getElapsedMs = () => Date.now() - startTime;
+  const getElapsedMs = () => (pausedAt ?? Date.now()) - startTime - pausedMs;
 
-  // Render game
-  const renderGame = (shouldClear = false, usedIndices?: Set<number>, currentInput?: string) => {
-    if (shouldClear) clearScreen();
-    printDefineagramHeader(
-      dateKey, definition, partOfSpeech, difficulty, wordLength,
-      getElapsedMs(), wrongGuesses, penaltyMs, currentHints, useMinimal,
-      currentLetters, usedIndices, currentInput,
-    );
+  const saveProgress = () => {
+    client.saveDefineagramProgress({
+      puzzleId: dateKey,
+      difficulty,
+      wrongGuesses,
+      penaltyMs,
+      pausedMs,
+      pausedAt: pausedAt === null ? null : new Date(pausedAt).toISOString(),
+    }).catch(() => {});
   };
+  if (puzzle.data.session?.pausedAt) saveProgress();
 
-  // Initial render
-  renderGame(true);
-  if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-  console.log();
+  const printPausedTime = () => {
+    if (pausedMs >= 1000) console.log(chalk.gray(`     Paused ${formatTimeMs(pausedMs)} (not counted)`));
+  };
 
-  while (!done) {
-    const { input: answer, isCommand } = await interactiveInput(
-      letterPool,
-      (input, usedIndices) => {
-        renderGame(true, usedIndices, input);
-        if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
+  const session: GameSession = {
+    letters,
+    live: true,
+
+    render(frame, usedIndices, currentInput) {
+      // A board taller than the terminal is repainted instead of patched, which
+      // would stop the clock, so list fewer penalties until it fits
+      for (let penaltyLines = MAX_PENALTY_LINES; ; penaltyLines--) {
+        const board = new Frame();
+        printDefineagramHeader(
+          board, dateKey, definition, partOfSpeech, difficulty, wordLength,
+          getElapsedMs(), wrongGuesses, penaltyMs, penalties, currentHints, useMinimal, ctx.timer, pausedAt !== null,
+          session.letters, usedIndices, currentInput, penaltyLines,
+        );
+        // Leave room for the footer runTurns adds and the input line
+        if (penaltyLines <= 1 || frameHeight(board.lines) + 3 <= (process.stdout.rows || 24)) {
+          frame.lines.push(...board.lines);
+          return;
+        }
+      }
+    },
+
+    recall() {
+      return wrongGuessWords;
+    },
+
+    async hint(redraw) {
+      let hintResult;
+      try {
+        hintResult = await withReauth(config, client, () => client.getDefineagramHint(dateKey, difficulty, hintsUsed));
+      } catch (err) {
+        redraw();
+        printApiError(err, "Couldn't get a hint.");
         console.log();
+        return;
       }
-    );
 
-    if (!answer) continue;
+      if (hintResult.status >= 400 || hintResult.data.error) {
+        redraw();
+        console.log(chalk.yellow(`  ${hintResult.data.error || "No hints available"}`));
+        console.log();
+      } else if (hintResult.data.hint) {
+        // Check for duplicate hint
+        if (!currentHints.includes(hintResult.data.hint)) {
+          currentHints.push(hintResult.data.hint);
+          hintsUsed++;
+          penaltyMs += 10000;
+          penalties.push({ kind: "hint", label: `Hint ${currentHints.length}`, ms: 10000, at: Date.now() });
+          saveProgress();
+        }
 
-    // Handle commands
-    if (isCommand || answer.startsWith("/")) {
-      const cmd = answer.startsWith("/") ? answer.slice(1).split(" ")[0] : answer;
-      switch (cmd) {
-        case "help":
-        case "h":
-          renderGame(true);
-          printDefineagramCommands();
-          console.log(chalk.gray("    Press any key to continue..."));
-          await new Promise<void>((resolve) => {
-            const stdin = process.stdin;
-            stdin.setRawMode(true);
-            stdin.resume();
-            stdin.once("data", () => {
-              stdin.setRawMode(false);
-              resolve();
-            });
-          });
-          renderGame(true);
-          if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-          console.log();
-          continue;
-        case "hint": {
-          const hintResult = await apiPost<{
-            hint?: string;
-            hintsRemaining?: number;
-            penaltyMs?: number;
-            error?: string;
-          }>(apiUrl, "/api/definagram/hint", {
-            puzzleId: dateKey,
-            difficulty,
-            hintsUsed,
-          }, token);
-
-          if (hintResult.status >= 400 || hintResult.data.error) {
-            renderGame(true);
-            if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-            console.log();
-            console.log(chalk.yellow(`  ${hintResult.data.error || "No hints available"}`));
-            console.log();
-          } else if (hintResult.data.hint) {
-            // Check for duplicate hint
-            if (!currentHints.includes(hintResult.data.hint)) {
-              currentHints.push(hintResult.data.hint);
-              hintsUsed++;
-              penaltyMs += 10000;
-              // Save progress
-              apiPost(apiUrl, "/api/definagram/daily/progress", {
-                puzzleId: dateKey,
-                difficulty,
-                wrongGuesses,
-                penaltyMs,
-              }, token).catch(() => {});
-            }
+        redraw();
+        console.log(chalk.yellow(`  💡 ${hintResult.data.hint}`));
+        console.log(chalk.gray(`     +10s penalty`));
+        if (accessibleMode && ctx.timer) console.log(describeDefineagramTime(getElapsedMs(), wrongGuesses, penaltyMs));
+        console.log();
+      }
+    },
 
-            renderGame(true);
-            if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-            console.log();
-            console.log(chalk.yellow(`  💡 ${hintResult.data.hint}`));
-            console.log(chalk.gray(`     +10s penalty`));
-            console.log();
-          }
-          continue;
+    commands: {
+      async pause(redraw) {
+        pausedAt = Date.now();
+        saveProgress();
+        redraw();
+        if (accessibleMode) {
+          const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+          await rl.question("Paused, the clock is stopped. Press Enter to resume.");
+          rl.close();
+        } else {
+          console.log(chalk.gray("  Press any key to resume..."));
+          await waitForKey();
         }
-        case "reveal": {
-          const revealResult = await apiGet<{
-            word?: string;
-            definition?: string;
-            phonetic?: string;
-            partOfSpeech?: string;
-          }>(apiUrl, `/api/definagram/reveal?puzzleId=${encodeURIComponent(dateKey)}&difficulty=${difficulty}`, token);
-
-          done = true;
-          clearScreen();
-          console.log();
-          if (revealResult.data.word) {
-            console.log(chalk.yellow("  The answer was:"));
-            console.log(chalk.white.bold(`     ${revealResult.data.word.toUpperCase()}`));
-            if (revealResult.data.phonetic) {
-              console.log(chalk.cyan(`     ${revealResult.data.phonetic}`));
-            }
-          } else {
-            console.log(chalk.yellow("  Puzzle revealed."));
-          }
+
+        pausedMs += Date.now() - pausedAt;
+        pausedAt = null;
+        saveProgress();
+        redraw();
+        if (accessibleMode && ctx.timer) console.log(`Resumed. ${describeDefineagramTime(getElapsedMs(), wrongGuesses, penaltyMs)}`);
+        return undefined;
+      },
+
+      async reveal(redraw) {
+        let revealResult;
+        try {
+          revealResult = await withReauth(config, client, () => client.revealDefineagram(dateKey, difficulty));
+        } catch (err) {
+          redraw();
+          printApiError(err, "Couldn't reveal the answer.");
           console.log();
+          return;
+        }
 
-          const postAction = await showDefineagramPostGameMenu(
-            dateKey, false, getElapsedMs() + penaltyMs, wrongGuesses, hintsUsed,
-          );
-          if (postAction === "quit") {
-            console.log(chalk.gray("  Goodbye!"));
-            process.exit(0);
+        totalTimeMs = getElapsedMs() + penaltyMs;
+        clearScreen();
+        console.log();
+        if (revealResult.data.word) {
+          console.log(chalk.yellow("  The answer was:"));
+          console.log(chalk.white.bold(`     ${revealResult.data.word.toUpperCase()}`));
+          if (revealResult.data.phonetic) {
+            console.log(chalk.cyan(`     ${revealResult.data.phonetic}`));
           }
-          return;
+        } else {
+          console.log(chalk.yellow("  Puzzle revealed."));
         }
-        case "exit":
-        case "back":
-        case "menu":
-          console.log(chalk.gray("  Returning to menu..."));
-          return;
-        case "quit":
-        case "q":
-          console.log(chalk.gray("  Goodbye!"));
-          process.exit(0);
-        case "shuffle":
-        case "s":
-          currentLetters = currentLetters.split("").sort(() => Math.random() - 0.5).join("");
-          letterPool.length = 0;
-          letterPool.push(...currentLetters.toUpperCase().split(""));
-          renderGame(true);
-          if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-          console.log();
-          process.stdout.write("\n" + chalk.gray("  Letters shuffled!") + "\x1b[1A\r");
-          continue;
-        default:
-          renderGame(true);
-          if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-          console.log();
-          process.stdout.write("\n" + chalk.yellow(`  Unknown command: /${cmd}. Type /help for commands.`) + "\x1b[1A\r");
-          continue;
-      }
-    }
+        printPausedTime();
+        console.log();
+        return { done: true };
+      },
+    },
 
-    // Validate length
-    if (answer.length !== wordLength) {
-      renderGame(true);
-      if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-      console.log();
-      console.log(chalk.yellow(`  Word must be exactly ${wordLength} letters`));
-      console.log();
-      continue;
-    }
+    async guess(answer, redraw) {
+      // Validate length
+      if (answer.length !== wordLength) {
+        redraw();
+        console.log(chalk.yellow(`  Word must be exactly ${wordLength} letters`));
+        console.log();
+        return;
+      }
 
-    // Submit guess
-    const result = await apiPost<{
-      correct?: boolean;
-      word?: string;
-      phonetic?: string;
-      partOfSpeech?: string;
-      message?: string;
-    }>(apiUrl, "/api/definagram/guess", {
-      guess: answer,
-      puzzleId: dateKey,
-      difficulty,
-    }, token);
+      let result;
+      try {
+        result = await withReauth(config, client, () => client.submitDefineagramGuess(answer, dateKey, difficulty));
+      } catch (err) {
+        redraw();
+        printApiError(err, "Couldn't submit your guess.");
+        if (isApiError(err) && (err.kind === "network" || err.kind === "timeout" || err.kind === "rate-limited")) {
+          console.log();
+          return;
+        }
+        return { stop: true };
+      }
 
-    if (result.status >= 500) {
-      renderGame(true);
-      if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-      console.log();
-      console.log(chalk.red("  Server error."));
-      break;
-    }
+      if (!result.data.correct) {
+        wrongGuesses++;
+        penaltyMs += 5000;
+        wrongGuessWords.push(answer);
+        penalties.push({ kind: "wrong", label: answer.toUpperCase(), ms: 5000, at: Date.now() });
+        saveProgress();
+
+        redraw();
+        const msg = result.data.message || "Wrong! Try again.";
+        console.log(chalk.red(`    ✗ ${msg}`) + chalk.gray(` (+5s penalty)`));
+        if (accessibleMode && ctx.timer) console.log(describeDefineagramTime(getElapsedMs(), wrongGuesses, penaltyMs));
+        console.log();
+        return;
+      }
 
-    if (result.data.correct) {
-      done = true;
+      won = true;
+      wrongGuessWords.push(answer);
       const elapsedMs = getElapsedMs();
-      const totalTimeMs = elapsedMs + penaltyMs;
+      totalTimeMs = elapsedMs + penaltyMs;
 
       // Submit completion to server
-      await apiPost(apiUrl, "/api/definagram/daily", {
+      await client.completeDefineagram({
         puzzleId: dateKey,
         difficulty,
         timeMs: elapsedMs,
         wrongGuesses,
-      }, token).catch(() => {});
+        pausedMs,
+      }).catch(() => {});
 
       clearScreen();
       console.log();
@@ -2503,37 +4967,400 @@ async function doPlayDefineagram(config: StoredConfig, minimal = false): Promise
       } else {
         console.log(chalk.gray(`     Time: ${accent(formatTimeMs(totalTimeMs))}`));
       }
+      printPausedTime();
       console.log();
+      return { done: true };
+    },
+  };
 
-      const postAction = await showDefineagramPostGameMenu(
-        dateKey, true, totalTimeMs, wrongGuesses, hintsUsed,
-      );
-      if (postAction === "quit") {
-        console.log(chalk.gray("  Goodbye!"));
-        process.exit(0);
+  return {
+    session,
+    result: () => ({
+      record: {
+        game: "defineagram",
+        dateKey,
+        won,
+        // The guess list ends with the answer on a win
+        guesses: wrongGuessWords.map((word) => ({ word, marks: [] })),
+        hintsUsed,
+        altFound: 0,
+        timeMs: totalTimeMs,
+        penaltyMs,
+        wrongGuesses,
+        source: "cli",
+      },
+      save: true,
+    }),
+  };
+}
+
+const GAME_MODES: GameMode<unknown>[] = [ANAGRAMA_MODE, DEFINEAGRAM_MODE];
+
+// ── Dev server ──────────────────────────────────────────────────────────────
+
+/** Run the mock backend until Ctrl+C. Resolves to the exit code. */
+async function doDevServer(opts: { port: string; host: string; latency: string; backfill: string; quiet?: boolean }): Promise<number> {
+  const port = Number(opts.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(chalk.red(`Invalid port "${opts.port}".`));
+    return EXIT.usage;
+  }
+
+  let server;
+  try {
+    server = await startDevServer({
+      port,
+      host: opts.host,
+      latencyMs: Math.max(0, Number(opts.latency) || 0),
+      backfillDays: Math.max(0, Number(opts.backfill) || 0),
+      log: opts.quiet ? undefined : (line) => console.log(dim(`  ${line}`)),
+    });
+  } catch (err) {
+    console.error(chalk.red(`  Couldn't start the dev server: ${err instanceof Error ? err.message : String(err)}`));
+    return EXIT.error;
+  }
+
+  console.log();
+  console.log(box(fg("Mock server running at ") + accent(server.url), {
+    ...boxenTheme(),
+    borderStyle: "round",
+    title: accent.bold(" Dev Server "),
+    titleAlignment: "left",
+    padding: { left: 1, right: 1, top: 0, bottom: 0 },
+    margin: { left: 2 },
+  }));
+  console.log();
+  // Plain lines (no box) so they copy-paste cleanly
+  console.log(dim("  Use a separate profile so your real account is untouched:"));
+  console.log(fg(`    anagrama profile add dev --url ${server.url} --api-url ${server.url}`));
+  console.log(fg("    anagrama --profile dev login"));
+  console.log();
+  console.log(dim("  Or point any command at it for one run:"));
+  console.log(fg(`    ANAGRAMA_URL=${server.url} ANAGRAMA_API_URL=${server.url} anagrama`));
+  console.log();
+  console.log(dim("  Logins are approved automatically, and any token starting with \"dev-\" is accepted."));
+  console.log(chalk.gray("  Press Ctrl+C to stop."));
+  console.log();
+
+  await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+  await server.close();
+  console.log(chalk.gray("  Dev server stopped."));
+  return EXIT.ok;
+}
+
+// ── History ─────────────────────────────────────────────────────────────────
+
+const GAME_LABELS: Record<GameId, string> = { anagrama: "Anagrama", defineagram: "Defineagram" };
+const WEEKDAY_LABELS = ["", "Mon", "", "Wed", "", "Fri", ""];
+const HISTORY_MAX_WEEKS = 53;
+
+function shiftDateKey(dateKey: string, days: number): string {
+  const d = new Date(dateKey + "T12:00:00");
+  d.setDate(d.getDate() + days);
+  return localDateKey(d);
+}
+
+/** Blend two #rrggbb colors; t = 0 gives `a`, t = 1 gives `b`. */
+function mixHex(a: string, b: string, t: number): string {
+  const pa = parseInt(a.slice(1), 16);
+  const pb = parseInt(b.slice(1), 16);
+  const channel = (shift: number) => {
+    const ca = (pa >> shift) & 0xff;
+    const cb = (pb >> shift) & 0xff;
+    return Math.round(ca + (cb - ca) * t);
+  };
+  return "#" + ((channel(16) << 16) | (channel(8) << 8) | channel(0)).toString(16).padStart(6, "0");
+}
+
+/** "Solved in N" for either game — Defineagram counts wrong guesses plus the solve. */
+function recordGuessCount(record: GameRecord): number {
+  if (record.game === "defineagram") return (record.wrongGuesses || 0) + 1;
+  if (record.attempts === undefined) return record.guesses.length;
+  // `attempts` counts lives spent, so a win took one more guess than that
+  return record.won ? record.attempts + 1 : record.attempts;
+}
+
+function describeRecord(record: GameRecord): string {
+  if (record.game === "defineagram") {
+    return record.won ? `Solved in ${formatTimeMs(record.timeMs || 0)}` : "Revealed";
+  }
+  const n = recordGuessCount(record);
+  const text = record.won ? `Solved in ${n} guess${n === 1 ? "" : "es"}` : "Not solved";
+  return record.archive ? `${text} (archive)` : text;
+}
+
+/** One heatmap cell: brighter accent for fewer guesses, red for a loss, a dot for no game. */
+function heatmapCell(record: GameRecord | undefined): string {
+  if (!record) return dim("·");
+  if (!record.won) return heatmapLoss();
+  const n = Math.max(1, Math.min(recordGuessCount(record), 5));
+  return heatmapShade(n - 1);
+}
+
+// Shades of the accent need more than 16 colors; below that, fewer guesses get a denser block
+const HEATMAP_BLOCKS = ["█", "▓", "▒", "░", "░"];
+
+function heatmapShade(step: number): string {
+  const t = getTheme();
+  if (colorLevel() === "16" || colorLevel() === "none") return accent(HEATMAP_BLOCKS[step]);
+  return chalk.hex(mixHex(t.accent, t.bg || t.dim, step * 0.15))("■");
+}
+
+function heatmapLoss(): string {
+  return colorLevel() === "none" ? "×" : chalk.red("■");
+}
+
+function printHistoryDay(dateKey: string, entries: HistoryEntry[]): void {
+  const records = (["anagrama", "defineagram"] as GameId[])
+    .map((game) => findRecord(entries, game, dateKey))
+    .filter((r): r is GameRecord => !!r);
+
+  console.log();
+  if (records.length === 0) {
+    console.log(bgLine(dim(`  ${formatDateLong(dateKey)} — no games played.`)));
+    console.log();
+    return;
+  }
+
+  for (const record of records) {
+    const lines: string[] = [];
+    lines.push(dim(formatDateLong(dateKey)));
+    lines.push(record.won ? accent.bold(describeRecord(record)) : chalk.red(describeRecord(record)));
+
+    if (record.migrated) {
+      lines.push("");
+      lines.push(dim("Details weren't recorded for this day."));
+    } else if (record.game === "anagrama") {
+      if (record.guesses.length > 0) {
+        lines.push("");
+        record.guesses.forEach((g, i) => lines.push(accessibleMode ? guessLine(i, g.word, g.marks) : renderMarks(g.word, g.marks)));
+      }
+      const extras: string[] = [];
+      if (record.hintsUsed > 0) extras.push(`${record.hintsUsed} hint${record.hintsUsed === 1 ? "" : "s"}`);
+      if (record.altFound > 0) extras.push(`${record.altFound} alt`);
+      if (record.source === "web") extras.push("played on the website");
+      if (extras.length > 0) {
+        lines.push("");
+        lines.push(dim(extras.join(" · ")));
       }
-      return;
     } else {
-      // Wrong guess
-      wrongGuesses++;
-      penaltyMs += 5000;
+      const totalMs = record.timeMs || 0;
+      const penaltyMs = record.penaltyMs || 0;
+      const wrong = record.wrongGuesses || 0;
+      lines.push("");
+      lines.push(dim("Solve time:  ") + fg(formatTimeMs(Math.max(0, totalMs - penaltyMs))));
+      lines.push(dim("Penalties:   ") + fg(`+${formatTimeMs(penaltyMs)}`) +
+        dim(` (${wrong} wrong · ${record.hintsUsed} hint${record.hintsUsed === 1 ? "" : "s"})`));
+      lines.push(dim("Total:       ") + accent(formatTimeMs(totalMs)));
+      const words = record.guesses.map((g) => g.word.toUpperCase());
+      if (words.length > 0) {
+        lines.push("");
+        lines.push(dim("Guesses:     ") + fg(words.join(", ")));
+      }
+      if (record.source === "web") {
+        lines.push("");
+        lines.push(dim("played on the website"));
+      }
+    }
 
-      // Save progress to server
-      apiPost(apiUrl, "/api/definagram/daily/progress", {
-        puzzleId: dateKey,
-        difficulty,
-        wrongGuesses,
-        penaltyMs,
-      }, token).catch(() => {});
+    console.log(box(lines.join("\n"), {
+      ...boxenTheme(),
+      borderStyle: "round",
+      title: accent.bold(` ${GAME_LABELS[record.game]} `),
+      titleAlignment: "left",
+      padding: { left: 1, right: 1, top: 0, bottom: 0 },
+      margin: { left: 2 },
+    }));
+  }
+  console.log();
+}
 
-      renderGame(true);
-      if (!useMinimal) console.log(chalk.gray("    / for shortcuts"));
-      console.log();
+/** Plain, most-recent-first list for minimal mode and non-interactive output. */
+function printHistoryList(entries: HistoryEntry[]): void {
+  const records = [...gameRecords(entries, "anagrama"), ...gameRecords(entries, "defineagram")]
+    .sort((a, b) => b.dateKey.localeCompare(a.dateKey) || a.game.localeCompare(b.game));
 
-      const msg = result.data.message || "Wrong! Try again.";
-      console.log(chalk.red(`    ✗ ${msg}`) + chalk.gray(` (+5s penalty)`));
-      console.log();
+  console.log();
+  if (records.length === 0) {
+    console.log(dim("  No games recorded yet."));
+    console.log();
+    return;
+  }
+  for (const r of records) {
+    const result = r.won ? accent(describeRecord(r)) : chalk.red(describeRecord(r));
+    console.log(`  ${dim(r.dateKey)}  ${fg(GAME_LABELS[r.game].padEnd(11))}  ${result}`);
+  }
+  console.log();
+}
+
+/** Columns (weeks) that fit the terminal; each cell takes two characters. */
+function historyWeeks(): number {
+  return Math.max(4, Math.min(HISTORY_MAX_WEEKS, Math.floor((getTermWidth() - 8) / 2)));
+}
+
+/** The Sunday that starts the leftmost column, so today lands in the last one. */
+function historyFirstDay(today: string): string {
+  const todayDow = new Date(today + "T12:00:00").getDay();
+  return shiftDateKey(today, -todayDow - (historyWeeks() - 1) * 7);
+}
+
+function renderHistoryHeatmap(entries: HistoryEntry[], game: GameId, selected: string, today: string): void {
+  const border = themeColor("border");
+  const byDate = new Map(gameRecords(entries, game).map((r) => [r.dateKey, r]));
+
+  const weeks = historyWeeks();
+  const firstDay = historyFirstDay(today);
+
+  // Month labels over the first week of each month, skipped when they'd collide
+  const monthRow = Array(weeks * 2).fill(" ");
+  let lastMonth = -1;
+  let nextFree = 0;
+  for (let w = 0; w < weeks; w++) {
+    const d = new Date(shiftDateKey(firstDay, w * 7) + "T12:00:00");
+    if (d.getMonth() === lastMonth) continue;
+    lastMonth = d.getMonth();
+    const label = d.toLocaleDateString("en-US", { month: "short" });
+    if (w * 2 < nextFree || w * 2 + label.length > monthRow.length) continue;
+    for (let i = 0; i < label.length; i++) monthRow[w * 2 + i] = label[i];
+    nextFree = w * 2 + label.length + 1;
+  }
+
+  clearScreen();
+  console.log();
+  console.log(border("  ──") + accent.bold(` ${GAME_LABELS[game]} history `) + border("─".repeat(30)));
+  console.log();
+  console.log("      " + dim(monthRow.join("")));
+  for (let dow = 0; dow < 7; dow++) {
+    let row = "  " + dim(WEEKDAY_LABELS[dow].padEnd(4));
+    for (let w = 0; w < weeks; w++) {
+      const key = shiftDateKey(firstDay, w * 7 + dow);
+      if (key > today) break;
+      const cell = heatmapCell(byDate.get(key));
+      row += (key === selected ? chalk.inverse(cell) : cell) + " ";
+    }
+    console.log(row);
+  }
+  console.log();
+
+  const record = byDate.get(selected);
+  const result = record ? (record.won ? accent(describeRecord(record)) : chalk.red(describeRecord(record))) : dim("Not played");
+  console.log(`  ${fg(formatDateLong(selected))}  ${result}`);
+  console.log();
+
+  const scale = [0, 1, 2, 3, 4].map(heatmapShade).join("");
+  console.log(dim("  Solved in 1 ") + scale + dim(" 5+   ") + heatmapLoss() + dim(" Failed   · Not played"));
+  console.log(dim("  ←→ Week  ↑↓ Day  Tab Switch game  Enter Details  Esc Back"));
+}
+
+/** Calendar heatmap of past days; arrow keys move, Enter drills into a day. */
+async function doHistory(minimal = false): Promise<void> {
+  const entries = await loadHistory();
+
+  if (minimal || accessibleMode || !process.stdin.isTTY || !process.stdout.isTTY) {
+    printHistoryList(entries);
+    return;
+  }
+
+  const today = localDateKey();
+  let game: GameId = "anagrama";
+  let selected = today;
+  let showingDay = false;
+
+  const render = () => {
+    if (showingDay) {
+      clearScreen();
+      printHistoryDay(selected, entries);
+      console.log(dim("  Press any key to go back"));
+      return;
+    }
+    renderHistoryHeatmap(entries, game, selected, today);
+  };
+
+  return new Promise((resolve) => {
+    const stdin = process.stdin;
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.setEncoding("utf8");
+
+    const finish = () => {
+      stdin.setRawMode(false);
+      stdin.removeListener("data", handleKey);
+      process.stdout.removeListener("resize", render);
+      stdin.pause();
+      resolve();
+    };
+
+    const move = (days: number) => {
+      const next = shiftDateKey(selected, days);
+      if (next > today || next < historyFirstDay(today)) return;
+      selected = next;
+      render();
+    };
+
+    const handleKey = (key: string) => {
+      if (key === "\u0003") { // Ctrl+C
+        finish();
+        return;
+      }
+      if (showingDay) {
+        showingDay = false;
+        render();
+        return;
+      }
+      if (key === "\u001B[A") return move(-1);  // Up
+      if (key === "\u001B[B") return move(1);   // Down
+      if (key === "\u001B[D") return move(-7);  // Left
+      if (key === "\u001B[C") return move(7);   // Right
+      if (key === "\t") {
+        game = game === "anagrama" ? "defineagram" : "anagrama";
+        render();
+        return;
+      }
+      if (key === "\r" || key === "\n") {
+        showingDay = true;
+        render();
+        return;
+      }
+      if (key === "\u001B" || key === "q") finish();
+    };
+
+    render();
+    stdin.on("data", handleKey);
+    process.stdout.on("resize", render);
+  });
+}
+
+// ── Archive ─────────────────────────────────────────────────────────────────
+// Past Anagrama puzzles. The played/solved marks come from the local history
+// log, which the main menu keeps in sync with the server.
+
+const ARCHIVE_PAGE_DAYS = 30;
+
+async function doArchive(config: StoredConfig, minimal = false): Promise<void> {
+  const entries = await loadHistory();
+  const today = localDateKey();
+  let days = ARCHIVE_PAGE_DAYS;
+  let focus: string | undefined;
+
+  while (true) {
+    const choices: { name: string; value: string }[] = [];
+    for (let i = 1; i <= days; i++) {
+      const dateKey = shiftDateKey(today, -i);
+      const record = findRecord(entries, "anagrama", dateKey);
+      const status = !record ? dim("Not played") : record.won ? chalk.green(describeRecord(record)) : chalk.red(describeRecord(record));
+      choices.push({ name: `${formatDateLong(dateKey).padEnd(30)} ${status}`, value: dateKey });
+    }
+    choices.push({ name: dim("Show older days"), value: "more" }, { name: "Back", value: "back" });
+
+    const picked = await choose({ message: "Play a past puzzle", choices, pageSize: 15, default: focus });
+    if (picked === "back") return;
+    if (picked === "more") {
+      focus = shiftDateKey(today, -days - 1);
+      days += ARCHIVE_PAGE_DAYS;
+      continue;
     }
+    await playMode(ANAGRAMA_MODE, config, { minimal, date: picked });
+    return;
   }
 }
 
@@ -2543,16 +5370,11 @@ async function mainLoop(): Promise<void> {
   // Migrate any existing plain-text tokens to secure storage
   await migrateCredentials();
 
-  // Load theme from config, or auto-detect on first launch
+  // First launch (or a theme that's gone): follow the system's dark/light mode
   const initConfig = await readConfig();
-  if (initConfig.theme && THEMES[initConfig.theme]) {
-    applyTheme(initConfig.theme);
-  } else {
-    // First launch: detect system dark/light mode and pick a matching theme
-    const systemTheme = await detectSystemTheme();
-    const defaultTheme = systemTheme === "light" ? "light" : "amber";
-    applyTheme(defaultTheme);
-    initConfig.theme = defaultTheme;
+  await resolveEnvTokenUser(initConfig);
+  if (initConfig.theme !== AUTO_THEME && !THEMES[initConfig.theme]) {
+    initConfig.theme = AUTO_THEME;
     await writeConfig(initConfig);
   }
 
@@ -2566,87 +5388,77 @@ async function mainLoop(): Promise<void> {
 
   while (running) {
     const config = await readConfig();
-    // Re-apply theme in case settings changed it
-    if (config.theme && THEMES[config.theme]) {
-      applyTheme(config.theme);
-    }
+    // Re-apply theme in case settings changed it, or the system switched between dark and light
+    await applySavedTheme(config, { askTerminal: true });
     const useMinimal = globalMinimal || config.minimal || false;
 
     // Sync server puzzle status each time (catches website completions, clears on logout)
-    if (config.token) {
+    let syncError: ApiError | null = null;
+    const client = createClient(config);
+    if (config.token && !config.sessionExpired) {
+      await autoSyncHistory(config, client);
+    }
+    if (config.token && !config.sessionExpired) {
       try {
-        const apiUrl = normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL);
-        const puzzle = await apiGet<{
-          dateKey?: string;
-          session?: { done?: boolean; win?: boolean; attempts?: number };
-        }>(apiUrl, "/anagrama/api/puzzle", config.token);
+        const puzzle = await withReauth(config, client, () => client.getPuzzle());
         if (puzzle.status < 400 && puzzle.data.session?.done) {
-          const serverDateKey = puzzle.data.dateKey || localDateKey();
-          const currentStats = await readStats();
-          if (currentStats.lastPlayedDate !== serverDateKey) {
-            // New day — use updateStats for proper counter tracking
-            await updateStats(
-              puzzle.data.session.win || false,
-              puzzle.data.session.attempts || 0,
-              serverDateKey,
-            );
-          } else if (puzzle.data.session.win && !currentStats.lastPlayedWon) {
-            // Same day, but server says won (e.g. solved on website) — sync win status
-            currentStats.lastPlayedWon = true;
-            currentStats.lastPlayedAttempts = puzzle.data.session.attempts || currentStats.lastPlayedAttempts;
-            await writeStats(currentStats);
-          }
+          // New day gets recorded; same day is only upgraded if the server says won (e.g. solved on website)
+          await recordGame(
+            anagramaRecordFromSession(puzzle.data.dateKey || localDateKey(), puzzle.data.session),
+            { upgradeWin: true },
+          );
         }
-      } catch {
-        // Network error — skip, local stats will be used
+      } catch (err) {
+        // Skip — local stats will be used, but tell the player why on the homescreen
+        if (isApiError(err)) syncError = err;
       }
     }
 
-    // Sync Defineagram status too
-    if (config.token) {
+    // Sync Defineagram status too (skip if the first sync already failed)
+    if (config.token && !config.sessionExpired && !syncError) {
       try {
-        const apiUrl = normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL);
-        const defPuzzle = await apiGet<{
-          dateKey?: string;
-          session?: { completed?: boolean; revealed?: boolean; totalTimeMs?: number; timeMs?: number };
-        }>(apiUrl, "/api/definagram/daily", config.token);
+        const defPuzzle = await client.getDefineagramDaily();
         if (defPuzzle.status < 400 && defPuzzle.data.session?.completed) {
-          const serverDateKey = defPuzzle.data.dateKey || localDateKey();
-          const defStats = await readDefineagramStats();
-          const won = !!(defPuzzle.data.session.completed && !defPuzzle.data.session.revealed);
-          const totalMs = defPuzzle.data.session.totalTimeMs || defPuzzle.data.session.timeMs || 0;
-          if (defStats.lastPlayedDate !== serverDateKey) {
-            await updateDefineagramStats(won, totalMs, serverDateKey);
-          } else if (won && !defStats.lastPlayedWon) {
-            defStats.lastPlayedWon = true;
-            defStats.lastPlayedTimeMs = totalMs;
-            await writeDefineagramStats(defStats);
-          }
+          await recordGame(
+            defineagramRecordFromSession(defPuzzle.data.dateKey || localDateKey(), defPuzzle.data.session),
+            { upgradeWin: true },
+          );
         }
-      } catch {
-        // Network error — skip
+      } catch (err) {
+        if (isApiError(err)) syncError = err;
       }
     }
 
-    const stats = await readStats();
-    const defStats = await readDefineagramStats();
-    const todayKey = localDateKey();
-    const solvedAnagramaToday = !!config.token && stats.lastPlayedDate === todayKey && stats.lastPlayedWon;
-    const solvedDefineagramToday = !!config.token && defStats.lastPlayedDate === todayKey && defStats.lastPlayedWon;
+    // Banner line for each game already solved today
+    const solvedToday = new Map<GameId, string>();
+    if (config.token) {
+      const history = await loadHistory();
+      const todayKey = localDateKey();
+      for (const mode of GAME_MODES) {
+        const line = mode.solvedToday(mode.computeStats(history), todayKey);
+        if (line) solvedToday.set(mode.id, line);
+      }
+    }
 
     clearScreen();
     printHomescreen(config, useMinimal);
 
+    if (config.token && config.sessionExpired) {
+      console.log(bgLine(chalk.yellow("  ⚠ Your session has expired. Choose \"Log in again\" to keep syncing your progress.")));
+      console.log();
+    } else if (syncError) {
+      console.log(bgLine(chalk.yellow(`  ⚠ Couldn't sync with the server. ${describeApiError(syncError)}`)));
+      console.log();
+    }
+
     // Show "already solved" banners
-    if (solvedAnagramaToday || solvedDefineagramToday) {
+    if (solvedToday.size > 0) {
       const dateStr = new Date().toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" });
-      const solvedGames: string[] = [];
-      if (solvedAnagramaToday) solvedGames.push(`Anagrama (${stats.lastPlayedAttempts} attempt${stats.lastPlayedAttempts === 1 ? "" : "s"})`);
-      if (solvedDefineagramToday) solvedGames.push(`Defineagram (${formatTimeMs(defStats.lastPlayedTimeMs)})`);
-      console.log(boxen(
+      const solvedGames = [...solvedToday.values()];
+      console.log(box(
         chalk.green.bold("🎉 Today's progress") + "\n" +
         dim(dateStr) + "\n" +
-        solvedGames.map(g => chalk.green("✅ ") + fg(g)).join("\n"),
+        solvedGames.map(g => (accessibleMode ? "Solved: " : chalk.green("✅ ")) + fg(g)).join("\n"),
         {
           ...boxenTheme(),
           borderStyle: "round",
@@ -2660,11 +5472,11 @@ async function mainLoop(): Promise<void> {
     // Show fun update banner
     const quip = UPDATE_QUIPS[Math.floor(Math.random() * UPDATE_QUIPS.length)];
     if (updateInstalledVersion) {
-      console.log(boxen(
+      console.log(box(
         accent.bold(`${quip}`) + "\n" +
         fg(`v${updateInstalledVersion} is ready`) + dim(" — restart to play!"),
         {
-          ...boxenTheme(), borderColor: getTheme().accent,
+          ...boxenTheme(), borderColor: boxColor("accent"),
           borderStyle: "round",
           padding: { left: 1, right: 1, top: 0, bottom: 0 },
           margin: { left: 2 },
@@ -2672,11 +5484,11 @@ async function mainLoop(): Promise<void> {
       ));
       console.log();
     } else if (pendingUpdateVersion && updateFailed) {
-      console.log(boxen(
+      console.log(box(
         accent.bold(`${quip}`) + "\n" +
         fg(`v${pendingUpdateVersion} available`) + dim(" — run: ") + accent("npm i -g anagrama"),
         {
-          ...boxenTheme(), borderColor: getTheme().accent,
+          ...boxenTheme(), borderColor: boxColor("accent"),
           borderStyle: "round",
           padding: { left: 1, right: 1, top: 0, bottom: 0 },
           margin: { left: 2 },
@@ -2684,11 +5496,11 @@ async function mainLoop(): Promise<void> {
       ));
       console.log();
     } else if (pendingUpdateVersion) {
-      console.log(boxen(
+      console.log(box(
         accent.bold(`${quip}`) + "\n" +
         fg(`v${pendingUpdateVersion}`) + dim(" is installing..."),
         {
-          ...boxenTheme(), borderColor: getTheme().accent,
+          ...boxenTheme(), borderColor: boxColor("accent"),
           borderStyle: "round",
           padding: { left: 1, right: 1, top: 0, bottom: 0 },
           margin: { left: 2 },
@@ -2705,10 +5517,12 @@ async function mainLoop(): Promise<void> {
     try {
       if (!config.token) {
         // Not logged in
-        const action = await select({
+        const action = await choose({
           message: "What would you like to do?",
           choices: [
             { name: "Log in to Anagrama", value: "login" },
+            { name: "Practice offline", value: "practice" },
+            { name: "Switch account", value: "profile" },
             { name: "Exit", value: "exit" },
           ],
         }, { signal: resizeCtrl.signal });
@@ -2716,8 +5530,8 @@ async function mainLoop(): Promise<void> {
         process.stdout.removeListener('resize', onResize);
 
         if (action === "login") {
-          const siteUrl = normalizeBaseUrl(DEFAULT_SITE_URL);
-          const apiUrl = normalizeBaseUrl(DEFAULT_API_URL);
+          const siteUrl = normalizeBaseUrl(config.baseUrl || DEFAULT_SITE_URL);
+          const apiUrl = normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL);
           const newConfig = await doLogin(siteUrl, apiUrl, { open: true });
           if (newConfig) {
             const name = newConfig.user?.displayName || newConfig.user?.username || "Player";
@@ -2729,21 +5543,32 @@ async function mainLoop(): Promise<void> {
             console.log(chalk.gray("\nPress Enter to continue..."));
             await sleep(2000);
           }
+        } else if (action === "practice") {
+          await doPracticeFromMenu(config, globalMinimal);
+        } else if (action === "profile") {
+          await doProfileSwitcher();
         } else {
           running = false;
           console.log(chalk.gray("  Goodbye!"));
         }
       } else {
         // Logged in - homescreen already shows welcome
-        const action = await select({
+        const action = await choose({
           message: "What would you like to do?",
           choices: [
-            { name: solvedAnagramaToday ? "✅ Play Anagrama" : "Play Anagrama", value: "anagrama" },
-            { name: solvedDefineagramToday ? "✅ Play Defineagram" : "Play Defineagram", value: "defineagram" },
+            ...(config.sessionExpired ? [{ name: "Log in again", value: "relogin" }] : []),
+            ...GAME_MODES.map((mode) => ({
+              name: solvedToday.has(mode.id) ? `✅ Play ${mode.label}` : `Play ${mode.label}`,
+              value: mode.id as string,
+            })),
+            { name: "Practice", value: "practice" },
             { name: "View stats", value: "stats" },
+            { name: "History", value: "history" },
+            { name: "Archive", value: "archive" },
             { name: "Leaderboard", value: "leaderboard" },
             { name: "Settings", value: "settings" },
             { name: "Account info", value: "whoami" },
+            { name: "Switch account", value: "profile" },
             { name: "Log out", value: "logout" },
             { name: "Exit", value: "exit" },
           ],
@@ -2752,11 +5577,18 @@ async function mainLoop(): Promise<void> {
         process.stdout.removeListener('resize', onResize);
 
         switch (action) {
-          case "anagrama":
-            await doPlay(config, globalMinimal);
+          case "relogin": {
+            const siteUrl = normalizeBaseUrl(config.baseUrl || DEFAULT_SITE_URL);
+            const apiUrl = normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL);
+            const renewed = await doLogin(siteUrl, apiUrl, { open: true });
+            if (!renewed) {
+              console.log(chalk.gray("\nPress Enter to continue..."));
+              await sleep(2000);
+            }
             break;
-          case "defineagram":
-            await doPlayDefineagram(config, globalMinimal);
+          }
+          case "practice":
+            await doPracticeFromMenu(config, globalMinimal);
             break;
           case "leaderboard":
             await open("https://playanagrama.com/leaderboards");
@@ -2768,15 +5600,28 @@ async function mainLoop(): Promise<void> {
             if (defineagramStats.gamesPlayed > 0) {
               printDefineagramStats(defineagramStats);
             }
+            const practiceStats = await readPracticeStats();
+            if (practiceStats.roundsPlayed > 0) {
+              printPracticeStats(practiceStats);
+            }
             console.log(chalk.gray("  Press Enter to continue..."));
             const rl3 = readline.createInterface({ input: process.stdin, output: process.stdout });
             await rl3.question("");
             rl3.close();
             break;
           }
+          case "history":
+            await doHistory(useMinimal);
+            break;
+          case "archive":
+            await doArchive(config, globalMinimal);
+            break;
           case "settings":
             await doSettings(config);
             break;
+          case "profile":
+            await doProfileSwitcher();
+            break;
           case "whoami": {
             await doWhoami(config);
             console.log(chalk.gray("  Press Enter to continue..."));
@@ -2786,7 +5631,7 @@ async function mainLoop(): Promise<void> {
             break;
           }
           case "logout": {
-            const confirmLogout = await select({
+            const confirmLogout = await choose({
               message: "Are you sure you want to log out?",
               choices: [
                 { name: "Yes, log out", value: true },
@@ -2803,6 +5648,10 @@ async function mainLoop(): Promise<void> {
             running = false;
             console.log(chalk.gray("  Goodbye! Come back tomorrow for a new puzzle."));
             break;
+          default: {
+            const mode = GAME_MODES.find((m) => m.id === action);
+            if (mode) await playMode(mode, config, { minimal: globalMinimal, timer: program.opts().timer });
+          }
         }
       }
     } catch {
@@ -2824,6 +5673,19 @@ program
   .description("Terminal client for Anagrama")
   .version(CURRENT_VERSION)
   .option("-m, --minimal", "Use minimal output mode (less visual clutter)")
+  .option("-p, --profile <name>", "Use a named account profile for this run")
+  .option("--accessible", "Plain text output for screen readers")
+  .option("--no-timer", "Hide the Defineagram clock for relaxed play")
+  .configureHelp({ showGlobalOptions: true })
+  .hook("preAction", async () => {
+    await initProfile(program.opts().profile);
+    // A global setting, so it's read before any command prints anything
+    accessibleFlag = program.opts().accessible || false;
+    const settings = (await readJsonFile<StoredConfig>(CONFIG_PATH)) || {};
+    applyAccessibility(settings);
+    applyMarkStyle(settings);
+    await loadCustomThemes();
+  })
   .action(async (opts) => {
     globalMinimal = opts.minimal || false;
     await mainLoop();
@@ -2835,10 +5697,31 @@ program
   .option("-u, --url <url>", "Frontend base URL")
   .option("--no-open", "Do not open the browser automatically")
   .option("-l, --label <label>", "Label for this device")
+  .option("--token <token>", "Log in with an existing API token (no browser)")
+  .option("--token-stdin", "Read the API token from stdin")
   .action(async (opts) => {
     const config = await readConfig();
     const siteUrl = normalizeBaseUrl(opts.url || config.baseUrl || DEFAULT_SITE_URL);
     const apiUrl = normalizeBaseUrl(config.apiUrl || DEFAULT_API_URL);
+
+    if (opts.token || opts.tokenStdin) {
+      const token = (opts.tokenStdin ? await readStdin() : opts.token as string).trim();
+      if (!token) {
+        console.error(chalk.red("No token provided."));
+        process.exitCode = 1;
+        return;
+      }
+      const newConfig = await doLoginWithToken(siteUrl, apiUrl, token);
+      if (!newConfig) {
+        process.exitCode = 1;
+        return;
+      }
+      const name = newConfig.user?.displayName || newConfig.user?.username || "Player";
+      console.log(chalk.green(`Logged in as ${name}.`));
+      if (ENV_TOKEN) console.log(chalk.yellow("Note: ANAGRAMA_TOKEN is set and takes precedence over the stored token."));
+      return;
+    }
+
     const newConfig = await doLogin(siteUrl, apiUrl, { open: opts.open, label: opts.label });
     if (newConfig) {
       const name = newConfig.user?.displayName || newConfig.user?.username || "Player";
@@ -2856,25 +5739,115 @@ program
 program
   .command("whoami")
   .description("Show current login")
+  .option("--json", "Print machine-readable JSON")
+  .action(async (opts) => {
+    const config = await readConfig();
+    await resolveEnvTokenUser(config);
+    await applySavedTheme(config);
+    process.exitCode = await doWhoami(config, { json: opts.json });
+  });
+
+program
+  .command("status")
+  .description("Show whether today's puzzles are played, solved or failed")
+  .option("--json", "Print machine-readable JSON")
+  .action(async (opts) => {
+    const config = await readConfig();
+    await applySavedTheme(config);
+    process.exitCode = await doStatus(config, { json: opts.json });
+  });
+
+const statsCmd = program
+  .command("stats")
+  .description("Show your stats")
+  .option("--json", "Print machine-readable JSON")
+  .action(async (opts) => {
+    const config = await readConfig();
+    const stats = await readStats();
+    const defineagramStats = await readDefineagramStats();
+    const practiceStats = await readPracticeStats();
+    if (opts.json) {
+      printJson(statsJson(stats, defineagramStats, practiceStats));
+      return;
+    }
+    await applySavedTheme(config);
+    printStats(stats);
+    if (defineagramStats.gamesPlayed > 0) printDefineagramStats(defineagramStats);
+    if (practiceStats.roundsPlayed > 0) printPracticeStats(practiceStats);
+  });
+
+statsCmd
+  .command("sync")
+  .description("Import your finished games from the server")
   .action(async () => {
     const config = await readConfig();
-    await doWhoami(config);
+    if (!(await doStatsSync(config))) process.exitCode = 1;
+  });
+
+program
+  .command("history [date]")
+  .description("Browse past games on a calendar, or show one day (YYYY-MM-DD)")
+  .option("-m, --minimal", "List days instead of drawing the calendar")
+  .action(async (date: string | undefined, opts) => {
+    const config = await readConfig();
+    await applySavedTheme(config);
+    if (date !== undefined) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        console.error(chalk.red(`Invalid date "${date}". Use YYYY-MM-DD.`));
+        process.exitCode = EXIT.usage;
+        return;
+      }
+      printHistoryDay(date, await loadHistory());
+      return;
+    }
+    await doHistory(opts.minimal || program.opts().minimal || config.minimal);
   });
 
 program
   .command("play")
   .description("Play the daily Anagrama puzzle")
   .option("-u, --url <url>", "API base URL")
+  .option("-d, --date <YYYY-MM-DD>", "Play a past day's puzzle from the archive")
   .option("-m, --minimal", "Use minimal output mode")
   .action(async (opts) => {
     const config = await readConfig();
     if (opts.url) {
       config.apiUrl = normalizeBaseUrl(opts.url);
     }
-    await doPlay(config, opts.minimal);
+    const today = localDateKey();
+    if (opts.date !== undefined && (!isDateKey(opts.date) || opts.date > today)) {
+      console.error(chalk.red(`Invalid date "${opts.date}". Use a past day as YYYY-MM-DD.`));
+      process.exitCode = EXIT.usage;
+      return;
+    }
+    await playMode(ANAGRAMA_MODE, config, { minimal: opts.minimal, date: opts.date === today ? undefined : opts.date });
   });
 
 program
+  .command("practice")
+  .description("Practice offline with words from the bundled list (doesn't affect daily stats)")
+  .option("-l, --length <n>", `Word length (${PRACTICE_LENGTHS.join(", ")})`, String(DEFAULT_PRACTICE_LENGTH))
+  .option("-r, --rounds <n>", "Number of rounds", String(DEFAULT_PRACTICE_ROUNDS))
+  .option("--seed <seed>", "Replay a session: same seed and length give the same words")
+  .option("-m, --minimal", "Use minimal output mode")
+  .action(async (opts) => {
+    const config = await readConfig();
+    await applySavedTheme(config, { askTerminal: true });
+    const parsed = parsePracticeOptions(opts);
+    if (typeof parsed === "string") {
+      console.error(chalk.red(parsed));
+      process.exitCode = EXIT.usage;
+      return;
+    }
+    if (!process.stdin.isTTY) {
+      console.error(chalk.red("Practice needs an interactive terminal."));
+      process.exitCode = EXIT.usage;
+      return;
+    }
+    await doPractice(config, parsed, opts.minimal || program.opts().minimal);
+  });
+
+const defineagramCmd = program
   .command("defineagram")
   .description("Play the daily Defineagram puzzle")
   .option("-u, --url <url>", "API base URL")
@@ -2884,7 +5857,128 @@ program
     if (opts.url) {
       config.apiUrl = normalizeBaseUrl(opts.url);
     }
-    await doPlayDefineagram(config, opts.minimal);
+    await playMode(DEFINEAGRAM_MODE, config, { minimal: opts.minimal, timer: program.opts().timer });
+  });
+
+defineagramCmd
+  .command("puzzle")
+  .description("Show today's definition and letters (starts the clock)")
+  .option("--json", "Print machine-readable JSON")
+  .action(async (opts) => {
+    const config = await readConfig();
+    await applySavedTheme(config);
+    process.exitCode = await doDefineagramPuzzleOneShot(config, { json: opts.json });
+  });
+
+defineagramCmd
+  .command("guess <word>")
+  .description("Submit one Defineagram guess")
+  .option("--json", "Print machine-readable JSON")
+  .action(async (word: string, opts) => {
+    const config = await readConfig();
+    await applySavedTheme(config);
+    process.exitCode = await doDefineagramGuessOneShot(config, word, { json: opts.json });
+  });
+
+defineagramCmd
+  .command("hint")
+  .description("Get a Defineagram hint (+10s penalty)")
+  .option("--json", "Print machine-readable JSON")
+  .action(async (opts) => {
+    const config = await readConfig();
+    await applySavedTheme(config);
+    process.exitCode = await doDefineagramHintOneShot(config, { json: opts.json });
+  });
+
+program
+  .command("puzzle")
+  .description("Show today's Anagrama letters, lives and guesses")
+  .option("--json", "Print machine-readable JSON")
+  .action(async (opts) => {
+    const config = await readConfig();
+    await applySavedTheme(config);
+    process.exitCode = await doPuzzleOneShot(config, { json: opts.json });
+  });
+
+program
+  .command("guess <word>")
+  .description("Submit one Anagrama guess")
+  .option("--json", "Print machine-readable JSON")
+  .action(async (word: string, opts) => {
+    const config = await readConfig();
+    await applySavedTheme(config);
+    process.exitCode = await doGuessOneShot(config, word, { json: opts.json });
+  });
+
+program
+  .command("hint")
+  .description("Reveal one letter of today's Anagrama")
+  .option("--json", "Print machine-readable JSON")
+  .action(async (opts) => {
+    const config = await readConfig();
+    await applySavedTheme(config);
+    process.exitCode = await doHintOneShot(config, { json: opts.json });
+  });
+
+program
+  .command("dev-server")
+  .description("Run a local mock Anagrama server for offline development and demos")
+  .option("--port <port>", "Port to listen on (0 = any free port)", "4646")
+  .option("--host <host>", "Interface to bind", "127.0.0.1")
+  .option("--latency <ms>", "Delay every response by this many milliseconds", "0")
+  .option("--backfill <days>", "Pre-fill this many past days of results (for `stats sync`)", "0")
+  .option("-q, --quiet", "Don't log requests")
+  .action(async (opts) => {
+    await applySavedTheme(await readConfig());
+    process.exitCode = await doDevServer(opts);
+  });
+
+const authCmd = program
+  .command("auth")
+  .description("Manage how credentials are stored");
+
+authCmd
+  .command("migrate")
+  .description("Move the stored token to another backend (keyring, file, passphrase)")
+  .option("--to <backend>", "Target backend: keyring, file or passphrase")
+  .action(async (opts) => {
+    process.exitCode = await doAuthMigrate(opts.to);
+  });
+
+const profileCmd = program
+  .command("profile")
+  .description("Manage named account profiles");
+
+profileCmd
+  .command("list")
+  .description("List profiles")
+  .action(async () => {
+    await doProfileList();
+  });
+
+profileCmd
+  .command("add <name>")
+  .description("Create a profile")
+  .option("-u, --url <url>", "Frontend base URL for this profile")
+  .option("--api-url <url>", "API base URL for this profile")
+  .action(async (name: string, opts) => {
+    if (!(await doProfileAdd(name, opts))) process.exitCode = 1;
+    else console.log(chalk.gray(`  Log in with: anagrama --profile ${name} login`));
+  });
+
+profileCmd
+  .command("use <name>")
+  .description("Make a profile the default for future runs")
+  .action(async (name: string) => {
+    if (!(await doProfileUse(name))) process.exitCode = 1;
+  });
+
+profileCmd
+  .command("remove <name>")
+  .description("Delete a profile and its credentials and stats")
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .action(async (name: string, opts) => {
+    if (!(await doProfileRemove(name, opts))) process.exitCode = 1;
   });
 
 program.parseAsync(process.argv);
@@ -0,0 +1,226 @@
+// Key bindings for the game prompt. A keymap has one or more modes, each
+// mapping key names (see keys.ts) to actions. In a typing mode, printable
+// keys without a binding are typed into the line; in any other mode (vi's
+// normal mode) they do nothing. The command palette (after "/") always takes
+// typed characters, so commands can be spelled out whatever the bindings.
+//
+// cli.json picks the keymap and can change single bindings:
+//
+//   "keymap": "vi",
+//   "keybindings": { "ctrl-s": "shuffle", "normal": { "s": "shuffle", "x": "none" } }
+//
+// A string value binds the key in every mode; an object binds keys in the mode
+// it's named after. "none" removes a binding.
+
+export const ACTIONS = {
+  submit: "Submit",
+  clear: "Clear the line",
+  shuffle: "Shuffle the letters",
+  hint: "Get a hint",
+  "undo-letter": "Undo the last letter",
+  "command-palette": "Open the command list",
+  "history-prev": "Previous guess",
+  "history-next": "Next guess",
+  complete: "Complete a command",
+  "cursor-left": "Cursor left",
+  "cursor-right": "Cursor right",
+  "line-start": "Start of line",
+  "line-end": "End of line",
+  "word-left": "Word left",
+  "word-right": "Word right",
+  "delete-back": "Delete before the cursor",
+  "delete-forward": "Delete under the cursor",
+  "delete-word": "Delete the word before the cursor",
+  "delete-start": "Delete to the start",
+  "delete-end": "Delete to the end",
+  "insert-mode": "Insert mode",
+  "insert-start": "Insert at the start",
+  append: "Append after the cursor",
+  "append-end": "Append at the end",
+  "normal-mode": "Normal mode",
+  none: "Nothing",
+} as const;
+
+export type Action = keyof typeof ACTIONS;
+
+/** Actions worth listing in the /help box; cursor movement and deletion are covered in the README. */
+export const HELP_ACTIONS: Action[] = [
+  "submit",
+  "clear",
+  "shuffle",
+  "hint",
+  "undo-letter",
+  "command-palette",
+  "history-prev",
+  "history-next",
+  "complete",
+  "normal-mode",
+  "insert-mode",
+];
+
+export type KeymapName = "default" | "vi";
+
+export const KEYMAP_NAMES: KeymapName[] = ["default", "vi"];
+
+export type Keymap = {
+  name: KeymapName;
+  /** Mode every new prompt starts in. */
+  initialMode: string;
+  /** Modes where unbound printable keys are typed. */
+  typingModes: string[];
+  modes: Record<string, Record<string, Action>>;
+};
+
+/** Bindings as written in cli.json. */
+export type KeyBindingsConfig = Record<string, string | Record<string, string>>;
+
+// Shell-style editing, shared by the default map and vi's insert mode
+const EDITING: Record<string, Action> = {
+  enter: "submit",
+  tab: "complete",
+  up: "history-prev",
+  down: "history-next",
+  left: "cursor-left",
+  right: "cursor-right",
+  "ctrl-b": "cursor-left",
+  "ctrl-f": "cursor-right",
+  home: "line-start",
+  end: "line-end",
+  "ctrl-a": "line-start",
+  "ctrl-e": "line-end",
+  "ctrl-left": "word-left",
+  "ctrl-right": "word-right",
+  "alt-left": "word-left",
+  "alt-right": "word-right",
+  "alt-b": "word-left",
+  "alt-f": "word-right",
+  backspace: "delete-back",
+  delete: "delete-forward",
+  "ctrl-d": "delete-forward",
+  "ctrl-w": "delete-word",
+  "alt-backspace": "delete-word",
+  "ctrl-u": "delete-start",
+  "ctrl-k": "delete-end",
+  "ctrl-z": "undo-letter",
+  "/": "command-palette",
+};
+
+const DEFAULT_KEYMAP: Keymap = {
+  name: "default",
+  initialMode: "insert",
+  typingModes: ["insert"],
+  modes: {
+    insert: { ...EDITING, escape: "clear" },
+  },
+};
+
+const VI_KEYMAP: Keymap = {
+  name: "vi",
+  initialMode: "insert",
+  typingModes: ["insert"],
+  modes: {
+    insert: { ...EDITING, escape: "normal-mode" },
+    normal: {
+      enter: "submit",
+      escape: "none",
+      tab: "complete",
+      h: "cursor-left",
+      l: "cursor-right",
+      left: "cursor-left",
+      right: "cursor-right",
+      backspace: "cursor-left",
+      "0": "line-start",
+      "^": "line-start",
+      $: "line-end",
+      home: "line-start",
+      end: "line-end",
+      w: "word-right",
+      b: "word-left",
+      x: "delete-forward",
+      delete: "delete-forward",
+      X: "delete-back",
+      D: "delete-end",
+      S: "clear",
+      u: "undo-letter",
+      "ctrl-z": "undo-letter",
+      k: "history-prev",
+      j: "history-next",
+      up: "history-prev",
+      down: "history-next",
+      i: "insert-mode",
+      I: "insert-start",
+      a: "append",
+      A: "append-end",
+      ":": "command-palette",
+      "/": "command-palette",
+      "=": "shuffle",
+      "?": "hint",
+    },
+  },
+};
+
+const KEYMAPS: Record<KeymapName, Keymap> = { default: DEFAULT_KEYMAP, vi: VI_KEYMAP };
+
+function isAction(value: unknown): value is Action {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ACTIONS, value);
+}
+
+/**
+ * The keymap named in settings with the user's bindings laid over it. Unknown
+ * keymaps fall back to the default one; bindings to unknown actions or modes
+ * are skipped.
+ */
+export function buildKeymap(name?: string, bindings?: KeyBindingsConfig): Keymap {
+  const base = KEYMAPS[name as KeymapName] || DEFAULT_KEYMAP;
+  const keymap: Keymap = {
+    ...base,
+    modes: Object.fromEntries(Object.entries(base.modes).map(([mode, keys]) => [mode, { ...keys }])),
+  };
+
+  const bind = (mode: string, key: string, action: unknown) => {
+    if (!key || !isAction(action) || !keymap.modes[mode]) return;
+    if (action === "none") delete keymap.modes[mode][key];
+    else keymap.modes[mode][key] = action;
+  };
+
+  for (const [key, value] of Object.entries(bindings || {})) {
+    if (value && typeof value === "object") {
+      for (const [modeKey, action] of Object.entries(value)) bind(key, modeKey, action);
+    } else {
+      for (const mode of Object.keys(keymap.modes)) bind(mode, key, value);
+    }
+  }
+  return keymap;
+}
+
+/** Every key bound to `action` in `mode`, in the order they were defined. */
+export function keysFor(keymap: Keymap, mode: string, action: Action): string[] {
+  return Object.entries(keymap.modes[mode] || {})
+    .filter(([, bound]) => bound === action)
+    .map(([key]) => key);
+}
+
+const KEY_LABELS: Record<string, string> = {
+  enter: "Enter",
+  escape: "Esc",
+  tab: "Tab",
+  backspace: "Backspace",
+  delete: "Del",
+  up: "↑",
+  down: "↓",
+  left: "←",
+  right: "→",
+  home: "Home",
+  end: "End",
+};
+
+/** "ctrl-z" → "Ctrl+Z", "up" → "↑" */
+export function keyLabel(key: string): string {
+  const parts = key.split("-");
+  if (parts.length > 1 && (parts[0] === "ctrl" || parts[0] === "alt") && parts[1]) {
+    const rest = parts.slice(1).join("-");
+    const label = KEY_LABELS[rest] || (rest.length === 1 ? rest.toUpperCase() : rest);
+    return `${parts[0] === "ctrl" ? "Ctrl" : "Alt"}+${label}`;
+  }
+  return KEY_LABELS[key] || key;
+}
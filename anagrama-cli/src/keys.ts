@@ -0,0 +1,186 @@
+// Raw-mode keyboard input. A single `data` event can hold several keys (fast
+// typing, pasting, a key plus its escape sequence), and an escape sequence
+// can be split across events, so chunks go through KeyDecoder, which turns
+// them into one Key per keypress. Bracketed paste arrives as a single key.
+// A lone ESC at the end of a chunk may be the start of an arrow key split in
+// two (over SSH, say), so it's only an Escape once the next chunk shows it
+// isn't, or once ESCAPE_TIMEOUT_MS pass with nothing more.
+// Keys are reported as what was pressed ("ctrl-w", "alt-b"); what they do is
+// up to the keymap.
+
+export const BRACKETED_PASTE_ON = "\x1b[?2004h";
+export const BRACKETED_PASTE_OFF = "\x1b[?2004l";
+
+const PASTE_START = "\x1b[200~";
+const PASTE_END = "\x1b[201~";
+
+/** How long a lone ESC waits for the rest of a sequence before it counts as the Escape key. */
+export const ESCAPE_TIMEOUT_MS = 100;
+
+export type Key = {
+  /**
+   * "char" for a printable character, "paste" for bracketed paste, otherwise
+   * the key: "enter", "escape", "up", "ctrl-left", "ctrl-w", "alt-b"…
+   */
+  name: string;
+  /** The character for "char", the pasted text for "paste", the raw bytes otherwise. */
+  text: string;
+};
+
+const CONTROL_KEYS: Record<string, string> = {
+  "\r": "enter",
+  "\n": "enter",
+  "\t": "tab",
+  "\x7f": "backspace",
+  "\b": "backspace",
+};
+
+// Final byte of a CSI sequence (`ESC [ params final`), with `~` sequences keyed by their number
+const CSI_KEYS: Record<string, string> = {
+  A: "up",
+  B: "down",
+  C: "right",
+  D: "left",
+  H: "home",
+  F: "end",
+  "1~": "home",
+  "7~": "home",
+  "4~": "end",
+  "8~": "end",
+  "3~": "delete",
+};
+
+const CSI_RE = /^\x1b\[([0-9;?]*)([ -/]*)([@-~])/;
+const CSI_PARTIAL_RE = /^\x1b\[[0-9;?]*[ -/]*$/;
+
+/** The name a keymap uses for a key: the character itself for "char", the key name otherwise. */
+export function keyId(key: Key): string {
+  return key.name === "char" ? key.text : key.name;
+}
+
+export class KeyDecoder {
+  private pending = "";
+  private paste: string | null = null;
+
+  /** A lone ESC (or ESC O) is held back; call `flush` after ESCAPE_TIMEOUT_MS if no more input comes. */
+  get waiting(): boolean {
+    return (this.pending === "\x1b" || this.pending === "\x1bO") && this.paste === null;
+  }
+
+  /** The held-back keys as typed: Escape, or Alt+O. */
+  flush(): Key[] {
+    if (!this.waiting) return [];
+    const text = this.pending;
+    this.pending = "";
+    return [{ name: text === "\x1b" ? "escape" : "alt-O", text }];
+  }
+
+  /** Split a chunk from stdin into keys, holding on to any sequence that isn't complete yet. */
+  feed(chunk: string): Key[] {
+    const keys: Key[] = [];
+    // A held ESC that isn't followed by a sequence was the key on its own
+    const continues = this.pending === "\x1b" ? /^[[O]/ : /^[A-Z]/;
+    if (this.waiting && chunk && !continues.test(chunk)) keys.push(...this.flush());
+    let data = this.pending + chunk;
+    this.pending = "";
+
+    while (data.length > 0) {
+      if (this.paste !== null) {
+        const end = data.indexOf(PASTE_END);
+        if (end === -1) {
+          // Keep a possible partial end marker for the next chunk
+          const keep = partialSuffix(data, PASTE_END);
+          this.paste += data.slice(0, data.length - keep);
+          this.pending = data.slice(data.length - keep);
+          break;
+        }
+        keys.push({ name: "paste", text: this.paste + data.slice(0, end) });
+        this.paste = null;
+        data = data.slice(end + PASTE_END.length);
+        continue;
+      }
+
+      if (data.startsWith(PASTE_START)) {
+        this.paste = "";
+        data = data.slice(PASTE_START.length);
+        continue;
+      }
+
+      if (data[0] === "\x1b") {
+        if (data.length === 1) {
+          this.pending = data;
+          break;
+        }
+        const csi = CSI_RE.exec(data);
+        if (csi) {
+          keys.push({ name: csiKey(csi[1], csi[3]), text: csi[0] });
+          data = data.slice(csi[0].length);
+          continue;
+        }
+        if (CSI_PARTIAL_RE.test(data)) {
+          this.pending = data;
+          break;
+        }
+        if (data === "\x1bO") {
+          this.pending = data;
+          break;
+        }
+        if (data[1] === "O") {
+          // SS3: some terminals send arrows and Home/End this way
+          keys.push({ name: CSI_KEYS[data[2]] || "unknown", text: data.slice(0, 3) });
+          data = data.slice(3);
+          continue;
+        }
+        if (data[1] === "\x1b") {
+          keys.push({ name: "escape", text: "\x1b" });
+          data = data.slice(1);
+          continue;
+        }
+        // Alt+key arrives as ESC followed by the key
+        const [meta] = Array.from(data.slice(1));
+        const base = CONTROL_KEYS[meta] || (meta >= " " ? meta : controlName(meta));
+        keys.push({ name: `alt-${base}`, text: "\x1b" + meta });
+        data = data.slice(1 + meta.length);
+        continue;
+      }
+
+      const [ch] = Array.from(data);
+      if (CONTROL_KEYS[ch]) {
+        keys.push({ name: CONTROL_KEYS[ch], text: ch });
+      } else if (ch < " ") {
+        keys.push({ name: controlName(ch), text: ch });
+      } else {
+        keys.push({ name: "char", text: ch });
+      }
+      data = data.slice(ch.length);
+    }
+
+    return keys;
+  }
+}
+
+/** "\x01" → "ctrl-a" */
+function controlName(ch: string): string {
+  const code = ch.charCodeAt(0);
+  if (code >= 1 && code <= 26) return `ctrl-${String.fromCharCode(code + 96)}`;
+  return "unknown";
+}
+
+function csiKey(params: string, final: string): string {
+  const parts = params.split(";");
+  const name = final === "~" ? CSI_KEYS[`${parts[0]}~`] : CSI_KEYS[final];
+  if (!name) return "unknown";
+  // xterm modifier parameter: 3 = Alt, 5 = Ctrl
+  const modifier = Number(parts[1] || 1);
+  if (modifier === 5) return `ctrl-${name}`;
+  if (modifier === 3) return `alt-${name}`;
+  return name;
+}
+
+/** Length of the longest tail of `data` that `marker` starts with. */
+function partialSuffix(data: string, marker: string): number {
+  for (let n = Math.min(marker.length - 1, data.length); n > 0; n--) {
+    if (marker.startsWith(data.slice(data.length - n))) return n;
+  }
+  return 0;
+}
@@ -0,0 +1,136 @@
+// The word being typed at the game prompt: its text and cursor position, an
+// undo stack, plus which letters of the puzzle's pool it uses up. Kept free of
+// terminal I/O so interactiveInput can drive it from decoded keys.
+
+/** Words for Ctrl+W and word jumps are separated by whitespace, as in a shell. */
+const isSpace = (ch: string | undefined) => ch !== undefined && /\s/.test(ch);
+
+type EditorState = { text: string; cursor: number };
+
+export class LineEditor {
+  text = "";
+  cursor = 0;
+  private undoStack: EditorState[] = [];
+
+  /** Remember the current line so the next change can be undone. */
+  checkpoint(): void {
+    this.undoStack.push({ text: this.text, cursor: this.cursor });
+  }
+
+  /** Go back to the line as it was before the last change. */
+  undo(): boolean {
+    while (this.undoStack.length > 0) {
+      const state = this.undoStack.pop();
+      // Checkpoints taken before an edit that did nothing aren't a change
+      if (state.text === this.text) continue;
+      this.text = state.text;
+      this.cursor = state.cursor;
+      return true;
+    }
+    return false;
+  }
+
+  /** Replace the whole line and put the cursor at the end. */
+  set(text: string): void {
+    this.text = text;
+    this.cursor = text.length;
+  }
+
+  clear(): void {
+    this.set("");
+  }
+
+  /** The line as it would be after inserting `str` at the cursor. */
+  preview(str: string): string {
+    return this.text.slice(0, this.cursor) + str + this.text.slice(this.cursor);
+  }
+
+  insert(str: string): void {
+    this.text = this.preview(str);
+    this.cursor += str.length;
+  }
+
+  backspace(): boolean {
+    if (this.cursor === 0) return false;
+    this.text = this.text.slice(0, this.cursor - 1) + this.text.slice(this.cursor);
+    this.cursor--;
+    return true;
+  }
+
+  deleteForward(): boolean {
+    if (this.cursor >= this.text.length) return false;
+    this.text = this.text.slice(0, this.cursor) + this.text.slice(this.cursor + 1);
+    return true;
+  }
+
+  /** Delete the word before the cursor, along with any spaces after it. */
+  deleteWordBefore(): boolean {
+    const start = this.wordStart();
+    if (start === this.cursor) return false;
+    this.text = this.text.slice(0, start) + this.text.slice(this.cursor);
+    this.cursor = start;
+    return true;
+  }
+
+  deleteToStart(): boolean {
+    if (this.cursor === 0) return false;
+    this.text = this.text.slice(this.cursor);
+    this.cursor = 0;
+    return true;
+  }
+
+  deleteToEnd(): boolean {
+    if (this.cursor >= this.text.length) return false;
+    this.text = this.text.slice(0, this.cursor);
+    return true;
+  }
+
+  left(): void {
+    this.cursor = Math.max(0, this.cursor - 1);
+  }
+
+  right(): void {
+    this.cursor = Math.min(this.text.length, this.cursor + 1);
+  }
+
+  home(): void {
+    this.cursor = 0;
+  }
+
+  end(): void {
+    this.cursor = this.text.length;
+  }
+
+  wordLeft(): void {
+    this.cursor = this.wordStart();
+  }
+
+  wordRight(): void {
+    let i = this.cursor;
+    while (i < this.text.length && isSpace(this.text[i])) i++;
+    while (i < this.text.length && !isSpace(this.text[i])) i++;
+    this.cursor = i;
+  }
+
+  private wordStart(): number {
+    let i = this.cursor;
+    while (i > 0 && isSpace(this.text[i - 1])) i--;
+    while (i > 0 && !isSpace(this.text[i - 1])) i--;
+    return i;
+  }
+}
+
+/**
+ * Which tiles of `pool` spell out `word`, matching each letter to the first
+ * free tile with that letter. Null when the pool doesn't have the letters.
+ * Recomputed after every edit, so the tiles always match the word on screen.
+ */
+export function poolIndices(pool: string[], word: string): Set<number> | null {
+  const used = new Set<number>();
+  for (const ch of word.toUpperCase()) {
+    const idx = pool.findIndex((tile, i) => !used.has(i) && tile.toUpperCase() === ch);
+    if (idx === -1) return null;
+    used.add(idx);
+  }
+  return used;
+}
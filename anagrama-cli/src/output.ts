@@ -0,0 +1,173 @@
+// Machine-readable output for `--json` and the exit codes scripts can rely on.
+// Every JSON document carries `schemaVersion` and `kind`; fields are only ever
+// added within a version. Removing or changing one bumps JSON_SCHEMA_VERSION.
+
+import type { ApiError } from "./api.js";
+
+export const JSON_SCHEMA_VERSION = 1;
+
+/** Process exit codes. Documented in the README; don't renumber. */
+export const EXIT = {
+  ok: 0,
+  error: 1,          // anything not covered below
+  usage: 2,          // bad arguments
+  notLoggedIn: 3,
+  sessionExpired: 4,
+  unavailable: 5,    // network, timeout, rate limit or server error
+  // One-shot guesses (`anagrama guess`, `anagrama defineagram guess`)
+  wrong: 10,         // valid word, not the answer (includes the guess that ends the game)
+  invalidWord: 11,   // not a word, wrong length or letters — no life spent
+  gameOver: 12,      // today's puzzle was already finished before this guess
+  alternate: 13,     // Anagrama only: a valid alternate anagram, not the target
+} as const;
+
+export type GameState = "unplayed" | "in-progress" | "solved" | "failed";
+
+export type StatsJson = {
+  schemaVersion: number;
+  kind: "stats";
+  profile: string;
+  anagrama: {
+    gamesPlayed: number;
+    gamesWon: number;
+    winRate: number; // 0–1
+    currentStreak: number;
+    maxStreak: number;
+    guessDistribution: number[]; // index 0 = solved in 1
+    lastPlayedDate: string | null;
+    lastPlayedWon: boolean;
+  };
+  defineagram: {
+    gamesPlayed: number;
+    gamesWon: number;
+    winRate: number;
+    currentStreak: number;
+    maxStreak: number;
+    bestTimeMs: number | null;
+    avgTimeMs: number | null;
+    lastPlayedDate: string | null;
+    lastPlayedWon: boolean;
+  };
+  practice: {
+    roundsPlayed: number;
+    roundsWon: number;
+    winRate: number;
+    currentRun: number; // consecutive practice rounds won; separate from daily streaks
+    bestRun: number;
+    guessDistribution: number[];
+    byLength: Record<string, { played: number; won: number }>;
+    lastPlayedAt: string | null; // ISO timestamp
+  };
+};
+
+export type WhoamiJson = {
+  schemaVersion: number;
+  kind: "whoami";
+  profile: string;
+  loggedIn: boolean;
+  sessionExpired: boolean;
+  user: { userId: string | null; username: string | null; displayName: string | null } | null;
+  server: { siteUrl: string; apiUrl: string };
+  credentials: string | null; // "keyring" | "file" | "passphrase" | "env"
+  lastLogin: string | null;   // ISO timestamp
+};
+
+export type StatusJson = {
+  schemaVersion: number;
+  kind: "status";
+  profile: string;
+  dateKey: string;
+  nextPuzzleInMs: number;
+  anagrama: {
+    state: GameState;
+    attempts: number;
+    maxAttempts: number;
+    hintsUsed: number;
+  };
+  defineagram: {
+    state: GameState;
+    timeMs: number | null; // total including penalties, once finished
+    wrongGuesses: number;
+    hintsUsed: number;
+  };
+};
+
+export type GuessResult = "correct" | "wrong" | "alternate" | "invalid" | "game-over";
+
+export type GuessJson = {
+  schemaVersion: number;
+  kind: "guess";
+  game: "anagrama" | "defineagram";
+  dateKey: string;
+  word: string;
+  result: GuessResult;
+  marks: string[];       // Anagrama: per letter "correct" | "present" | "absent"; empty for Defineagram
+  done: boolean;         // the game is over after this guess
+  won: boolean;
+  message: string | null;
+  // Anagrama
+  attempts?: number;
+  livesLeft?: number;
+  // Defineagram
+  wrongGuesses?: number;
+  penaltyMs?: number;
+  timeMs?: number | null; // total including penalties, once solved
+};
+
+export type PuzzleJson = {
+  schemaVersion: number;
+  kind: "puzzle";
+  game: "anagrama" | "defineagram";
+  dateKey: string;
+  state: GameState;
+  letters: string;
+  length: number;
+  hintsUsed: number;
+  // Anagrama
+  maxAttempts?: number;
+  attempts?: number;
+  livesLeft?: number;
+  guesses?: { word: string; marks: string[] }[];
+  // Defineagram
+  definition?: string;
+  partOfSpeech?: string | null;
+  difficulty?: string;
+  hints?: string[];
+  wrongGuesses?: number;
+  penaltyMs?: number;
+};
+
+export type HintJson = {
+  schemaVersion: number;
+  kind: "hint";
+  game: "anagrama" | "defineagram";
+  hint: string | null;     // human-readable text
+  position?: number;       // Anagrama: 0-based letter position
+  letter?: string;
+  penaltyMs?: number;      // Defineagram: total penalty after this hint
+};
+
+export type ErrorJson = {
+  schemaVersion: number;
+  kind: "error";
+  error: {
+    code: "not-logged-in" | "session-expired" | "unavailable" | "usage" | "error";
+    message: string;
+  };
+};
+
+export type JsonDocument = StatsJson | WhoamiJson | StatusJson | GuessJson | PuzzleJson | HintJson | ErrorJson;
+
+export function printJson(doc: JsonDocument): void {
+  process.stdout.write(JSON.stringify(doc, null, 2) + "\n");
+}
+
+export function exitCodeForApiError(err: ApiError): number {
+  if (err.kind === "auth-expired") return EXIT.sessionExpired;
+  if (err.kind === "malformed") return EXIT.error;
+  return EXIT.unavailable;
+}
+
+export function errorJson(code: ErrorJson["error"]["code"], message: string): ErrorJson {
+  return { schemaVersion: JSON_SCHEMA_VERSION, kind: "error", error: { code, message } };
+}
@@ -0,0 +1,173 @@
+// Offline practice (`anagrama practice`). Rounds come from the bundled word list
+// and are scored locally, so nothing here touches the network. Results go to
+// their own append-only log (practice.jsonl) — daily stats and streaks are only
+// ever derived from history.jsonl and never see a practice round.
+
+import fs from "fs/promises";
+import path from "path";
+import { hashKey, markGuess, scrambleWord, seededRandom, sortedLetters } from "./puzzle.js";
+import { PRACTICE_LENGTHS, PRACTICE_WORDS } from "./words.js";
+
+export const PRACTICE_MAX_LIVES = 5;
+export const DEFAULT_PRACTICE_LENGTH = 5;
+export const DEFAULT_PRACTICE_ROUNDS = 5;
+export const MAX_PRACTICE_ROUNDS = 50;
+
+export { PRACTICE_LENGTHS };
+
+export type PracticeRound = {
+  word: string;
+  scramble: string;
+  alternates: string[]; // other bundled words with exactly the same letters
+};
+
+export type PracticeGuessResult = "correct" | "alternate" | "wrong" | "invalid";
+
+export type PracticeGuess = {
+  result: PracticeGuessResult;
+  marks: string[]; // empty for "invalid"
+};
+
+export type PracticeRecord = {
+  kind: "practice";
+  length: number;
+  word: string;
+  won: boolean;
+  attempts: number; // wrong guesses (lives spent)
+  hintsUsed: number;
+  altFound: number;
+  seed: string;
+  round: number; // 1-based position within the session
+  recordedAt: string;
+};
+
+export type PracticeStats = {
+  roundsPlayed: number;
+  roundsWon: number;
+  currentRun: number; // consecutive rounds won
+  bestRun: number;
+  guessDistribution: number[]; // index 0 = solved in 1, index 4 = solved in 5
+  byLength: Record<string, { played: number; won: number }>;
+  lastPlayedAt: string | null;
+};
+
+export const DEFAULT_PRACTICE_STATS: PracticeStats = {
+  roundsPlayed: 0,
+  roundsWon: 0,
+  currentRun: 0,
+  bestRun: 0,
+  guessDistribution: [0, 0, 0, 0, 0],
+  byLength: {},
+  lastPlayedAt: null,
+};
+
+// ── Rounds ──────────────────────────────────────────────────────────────────
+
+/** A short random seed for sessions started without `--seed`. */
+export function randomPracticeSeed(): string {
+  return Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, "0");
+}
+
+/**
+ * The rounds for one session. The same seed and length always give the same
+ * words in the same order with the same scrambles. Words don't repeat within a
+ * session unless more rounds are asked for than the list holds.
+ */
+export function createPracticeRounds(opts: { length: number; rounds: number; seed: string }): PracticeRound[] {
+  const words = PRACTICE_WORDS[opts.length] || [];
+  if (words.length === 0) return [];
+  const random = seededRandom(hashKey(`practice:${opts.length}:${opts.seed}`));
+
+  const rounds: PracticeRound[] = [];
+  let pool: string[] = [];
+  for (let i = 0; i < opts.rounds; i++) {
+    if (pool.length === 0) pool = [...words];
+    const word = pool.splice(Math.floor(random() * pool.length), 1)[0];
+    const key = sortedLetters(word);
+    const alternates = words.filter((w) => w !== word && sortedLetters(w) === key);
+    // Never show a scramble that is already one of the accepted words
+    let scramble = scrambleWord(word, random);
+    for (let tries = 0; tries < 10 && alternates.includes(scramble); tries++) {
+      scramble = scrambleWord(word, random);
+    }
+    rounds.push({ word, scramble, alternates });
+  }
+  return rounds;
+}
+
+/**
+ * Score a guess the way the daily game does: it has to use exactly the puzzle's
+ * letters, an alternate anagram is accepted without costing a life, and any
+ * other arrangement is a wrong guess. The bundled list is too small to tell
+ * real words from nonsense, so every arrangement counts as a word.
+ */
+export function scorePracticeGuess(round: PracticeRound, guess: string): PracticeGuess {
+  const word = guess.toLowerCase();
+  if (sortedLetters(word) !== sortedLetters(round.word)) return { result: "invalid", marks: [] };
+  const marks = markGuess(word, round.word);
+  if (word === round.word) return { result: "correct", marks };
+  if (round.alternates.includes(word)) return { result: "alternate", marks };
+  return { result: "wrong", marks };
+}
+
+/** Next unrevealed position, left to right. The last letter is never given away. */
+export function practiceHint(round: PracticeRound, revealed: number[]): { position: number; letter: string } | null {
+  if (revealed.length >= round.word.length - 1) return null;
+  const position = [...round.word].findIndex((_, i) => !revealed.includes(i));
+  return { position, letter: round.word[position] };
+}
+
+// ── Storage ─────────────────────────────────────────────────────────────────
+
+export async function readPracticeLog(filePath: string): Promise<PracticeRecord[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf8");
+  } catch {
+    return [];
+  }
+  const records: PracticeRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as PracticeRecord;
+      if (record && record.kind === "practice") records.push(record);
+    } catch {
+      // Skip a torn or hand-edited line rather than losing the whole log
+    }
+  }
+  return records;
+}
+
+export async function appendPracticeRecord(filePath: string, record: Omit<PracticeRecord, "kind" | "recordedAt">): Promise<void> {
+  const line: PracticeRecord = { kind: "practice", ...record, recordedAt: new Date().toISOString() };
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, JSON.stringify(line) + "\n", "utf8");
+}
+
+// ── Reducers ────────────────────────────────────────────────────────────────
+
+export function computePracticeStats(records: PracticeRecord[]): PracticeStats {
+  const stats: PracticeStats = {
+    ...DEFAULT_PRACTICE_STATS,
+    guessDistribution: [...DEFAULT_PRACTICE_STATS.guessDistribution],
+    byLength: {},
+  };
+  for (const r of records) {
+    stats.roundsPlayed++;
+    stats.lastPlayedAt = r.recordedAt;
+    const bucket = (stats.byLength[String(r.length)] ??= { played: 0, won: 0 });
+    bucket.played++;
+    if (r.won) {
+      stats.roundsWon++;
+      bucket.won++;
+      stats.currentRun++;
+      stats.bestRun = Math.max(stats.bestRun, stats.currentRun);
+      const idx = Math.max(0, Math.min(r.attempts, PRACTICE_MAX_LIVES - 1));
+      stats.guessDistribution[idx]++;
+    } else {
+      stats.currentRun = 0;
+    }
+  }
+  return stats;
+}
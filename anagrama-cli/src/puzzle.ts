@@ -0,0 +1,61 @@
+// Game logic shared by everything that scores guesses without the real server:
+// offline practice and the dev-server mock. Kept free of I/O.
+
+/** FNV-1a — a stable 32-bit number for a string (date key, seed…). */
+export function hashKey(key: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: small seeded PRNG so shuffles and word picks are repeatable. */
+export function seededRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffle(letters: string, random: () => number): string {
+  const chars = letters.split("");
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join("");
+}
+
+/** Shuffle, but never hand back the word itself. */
+export function scrambleWord(word: string, random: () => number): string {
+  const scramble = shuffle(word, random);
+  return scramble === word ? scramble.slice(1) + scramble[0] : scramble;
+}
+
+export function sortedLetters(word: string): string {
+  return word.split("").sort().join("");
+}
+
+/** Marks in the shape `renderMarks` expects: exact matches first, then present letters by remaining count. */
+export function markGuess(guess: string, target: string): string[] {
+  const marks = Array<string>(guess.length).fill("absent");
+  const remaining = new Map<string, number>();
+  for (let i = 0; i < target.length; i++) {
+    if (guess[i] === target[i]) marks[i] = "correct";
+    else remaining.set(target[i], (remaining.get(target[i]) || 0) + 1);
+  }
+  for (let i = 0; i < guess.length; i++) {
+    if (marks[i] === "correct") continue;
+    const left = remaining.get(guess[i]) || 0;
+    if (left > 0) {
+      marks[i] = "present";
+      remaining.set(guess[i], left - 1);
+    }
+  }
+  return marks;
+}
@@ -0,0 +1,159 @@
+// Flicker-free drawing for the game screens. A game runs on the terminal's
+// alternate screen buffer, and each redraw is handed over as a whole frame;
+// only rows that differ from the previous frame are rewritten, so typing a
+// letter touches two or three rows instead of repainting the board. Leaving
+// the alternate screen (or exiting) brings back what the terminal showed before.
+
+const ENTER_ALT_SCREEN = "\x1b[?1049h";
+const LEAVE_ALT_SCREEN = "\x1b[?1049l";
+
+/** One screenful of output, collected the way console.log would print it. */
+export class Frame {
+  readonly lines: string[] = [];
+
+  log(text = ""): void {
+    this.lines.push(...text.split("\n"));
+  }
+}
+
+const ANSI_RE = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*\x07/g;
+
+function charWidth(code: number): number {
+  // Combining marks, zero-width joiner and variation selectors
+  if ((code >= 0x0300 && code <= 0x036f) || code === 0x200d || (code >= 0xfe00 && code <= 0xfe0f)) return 0;
+  if (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    (code >= 0x1f300 && code <= 0x1faff)
+  ) return 2;
+  return 1;
+}
+
+/** Columns a line takes up once colors are stripped. */
+export function visibleWidth(text: string): number {
+  let width = 0;
+  for (const ch of text.replace(ANSI_RE, "")) width += charWidth(ch.codePointAt(0) || 0);
+  return width;
+}
+
+/** The terminal row (0-based) each line starts on, and the rows they take up in all. */
+function layout(lines: string[]): { rows: number[]; total: number } {
+  const cols = process.stdout.columns || 80;
+  const rows: number[] = [];
+  let total = 0;
+  for (const line of lines) {
+    rows.push(total);
+    total += Math.max(1, Math.ceil(visibleWidth(line) / cols));
+  }
+  return { rows, total };
+}
+
+/** Rows a frame takes up on the terminal, counting wrapped lines. */
+export function frameHeight(lines: string[]): number {
+  return layout(lines).total;
+}
+
+export class Screen {
+  private active = false;
+  private exitHookInstalled = false;
+  private prev: string[] = [];
+  private prevRows: number[] = []; // first terminal row (0-based) of each previous line
+  private prevTotal = 0;
+  private valid = false;
+
+  private readonly onResize = () => this.invalidate();
+
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  /** Switch to the alternate screen. Safe to call when already there. */
+  enter(): void {
+    if (this.active || !process.stdout.isTTY) return;
+    process.stdout.write(ENTER_ALT_SCREEN);
+    process.stdout.on("resize", this.onResize);
+    if (!this.exitHookInstalled) {
+      // process.exit() skips finally blocks, so make sure the terminal is restored regardless
+      process.on("exit", () => this.leave());
+      this.exitHookInstalled = true;
+    }
+    this.active = true;
+    this.invalidate();
+  }
+
+  /** Back to the normal screen, with its contents as they were before `enter`. */
+  leave(): void {
+    if (!this.active) return;
+    process.stdout.removeListener("resize", this.onResize);
+    process.stdout.write(LEAVE_ALT_SCREEN);
+    this.active = false;
+    this.invalidate();
+  }
+
+  /** Forget the previous frame so the next draw repaints everything. */
+  invalidate(): void {
+    this.valid = false;
+    this.prev = [];
+    this.prevRows = [];
+    this.prevTotal = 0;
+  }
+
+  /**
+   * Draw a frame from the top of the screen and leave the cursor on the row
+   * below it, with everything underneath cleared. Lines that wrap are allowed;
+   * a frame taller than the terminal is repainted in full every time.
+   */
+  draw(frame: Frame): void {
+    const lines = frame.lines;
+    const height = process.stdout.rows || 24;
+    const { rows, total } = layout(lines);
+
+    if (!this.valid || total >= height) {
+      process.stdout.write("\x1b[H\x1b[2J" + lines.map((l) => l + "\n").join(""));
+    } else {
+      process.stdout.write(this.changedRows(lines, rows, total) + `\x1b[${total + 1};1H\x1b[J`);
+    }
+
+    this.prev = [...lines];
+    this.prevRows = rows;
+    this.prevTotal = total;
+    this.valid = total < height;
+  }
+
+  /**
+   * Rewrite the lines that changed since the last frame, leaving the cursor
+   * and everything below the frame (the input line, the command menu) as they
+   * are. Only for a frame laid out on the same rows as the last one; anything
+   * else returns false without drawing, and needs a full `draw`.
+   */
+  patch(frame: Frame): boolean {
+    const lines = frame.lines;
+    const { rows, total } = layout(lines);
+    if (!this.valid || total !== this.prevTotal || rows.some((row, i) => row !== this.prevRows[i])) return false;
+
+    const out = this.changedRows(lines, rows, total);
+    // Save and restore the cursor around the rewrite
+    if (out) process.stdout.write("\x1b7" + out + "\x1b8");
+    this.prev = [...lines];
+    return true;
+  }
+
+  private changedRows(lines: string[], rows: number[], total: number): string {
+    let out = "";
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i] === this.prev[i] && rows[i] === this.prevRows[i]) continue;
+      const span = (i + 1 < lines.length ? rows[i + 1] : total) - rows[i];
+      for (let r = 0; r < span; r++) out += `\x1b[${rows[i] + r + 1};1H\x1b[2K`;
+      out += `\x1b[${rows[i] + 1};1H${lines[i]}`;
+    }
+    return out;
+  }
+}
+
+/** The one screen the game draws to. */
+export const screen = new Screen();
@@ -0,0 +1,142 @@
+// User themes: one JSON file per theme in ~/.anagrama/themes/, named after the
+// theme's key (dusk.json → "dusk"). The shape is the built-in theme colors,
+// with the 16-color picks optional (they're worked out from the hex colors when
+// left out) and optional colors for the guess marks and used letter tiles:
+//
+//   {
+//     "label": "Dusk",
+//     "accent": "#F5A623", "border": "#CC6B3D", "fg": "#FFFFFF",
+//     "dim": "#888888", "bg": "#1a1a1a", "tileFg": "#1a1a1a",
+//     "marks": { "correct": "#6AAA64", "present": "#C9B458", "absent": "#3A3A3C" },
+//     "used": { "bg": "#333333", "fg": "#555555" }
+//   }
+//
+// A file that doesn't check out is skipped and reported in the theme picker;
+// the other themes still load.
+
+import fs from "fs/promises";
+import path from "path";
+import { foregroundColorNames, type ForegroundColorName } from "chalk";
+
+export const THEME_COLOR_KEYS = ["accent", "border", "fg", "dim", "bg", "tileFg"] as const;
+
+export type ThemeColorKey = (typeof THEME_COLOR_KEYS)[number];
+
+export const MARK_KEYS = ["correct", "present", "absent"] as const;
+
+export type ThemeFile = Record<ThemeColorKey, string> & {
+  label: string;
+  /** 16-color picks; `bg` may be left out for the terminal's own background. */
+  basic?: Partial<Record<ThemeColorKey, ForegroundColorName>>;
+  marks?: Partial<Record<(typeof MARK_KEYS)[number], string>>;
+  used?: { bg?: string; fg?: string };
+};
+
+export type ThemeFileError = { file: string; message: string };
+
+const HEX_RE = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_RE.test(value);
+}
+
+/** "#abc" → "#AABBCC", so every theme color can go through the same math. */
+export function normalizeHex(hex: string): string {
+  const digits = hex.slice(1);
+  const full = digits.length === 3 ? digits.replace(/./g, (d) => d + d) : digits;
+  return `#${full.toUpperCase()}`;
+}
+
+/** A theme's key from its label: "Night Owl!" → "night-owl". */
+export function themeKey(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "theme";
+}
+
+/** Check a parsed theme file. Returns the theme, or what's wrong with it. */
+export function parseThemeFile(raw: unknown, fallbackLabel: string): ThemeFile | string {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "not a JSON object";
+  const data = raw as Record<string, unknown>;
+
+  const theme = { label: fallbackLabel } as ThemeFile;
+  if (data.label !== undefined) {
+    if (typeof data.label !== "string" || !data.label.trim()) return `"label" should be a name`;
+    theme.label = data.label.trim();
+  }
+
+  for (const key of THEME_COLOR_KEYS) {
+    const value = data[key];
+    // An empty background means the terminal's own
+    if (key === "bg" && (value === undefined || value === "")) {
+      theme.bg = "";
+      continue;
+    }
+    if (!isHexColor(value)) return `"${key}" should be a hex color like "#F5A623"`;
+    theme[key] = normalizeHex(value);
+  }
+
+  if (data.basic !== undefined) {
+    if (!data.basic || typeof data.basic !== "object") return `"basic" should be an object`;
+    theme.basic = {};
+    for (const [key, value] of Object.entries(data.basic)) {
+      if (!(THEME_COLOR_KEYS as readonly string[]).includes(key)) return `"basic.${key}" isn't a theme color`;
+      if (!foregroundColorNames.includes(value as ForegroundColorName)) {
+        return `"basic.${key}" should be a terminal color name like "yellow" or "cyanBright"`;
+      }
+      theme.basic[key as ThemeColorKey] = value as ForegroundColorName;
+    }
+  }
+
+  if (data.marks !== undefined) {
+    if (!data.marks || typeof data.marks !== "object") return `"marks" should be an object`;
+    theme.marks = {};
+    for (const [key, value] of Object.entries(data.marks)) {
+      if (!(MARK_KEYS as readonly string[]).includes(key)) return `"marks.${key}" isn't a mark (correct, present or absent)`;
+      if (!isHexColor(value)) return `"marks.${key}" should be a hex color`;
+      theme.marks[key as (typeof MARK_KEYS)[number]] = normalizeHex(value);
+    }
+  }
+
+  if (data.used !== undefined) {
+    if (!data.used || typeof data.used !== "object") return `"used" should be an object`;
+    theme.used = {};
+    for (const [key, value] of Object.entries(data.used)) {
+      if (key !== "bg" && key !== "fg") return `"used.${key}" should be "bg" or "fg"`;
+      if (!isHexColor(value)) return `"used.${key}" should be a hex color`;
+      theme.used[key] = normalizeHex(value);
+    }
+  }
+
+  return theme;
+}
+
+/** Every theme in `dir`, by key, plus the files that were skipped. A missing folder is no themes. */
+export async function readThemeFiles(dir: string): Promise<{ themes: Map<string, ThemeFile>; errors: ThemeFileError[] }> {
+  const themes = new Map<string, ThemeFile>();
+  const errors: ThemeFileError[] = [];
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((f) => f.endsWith(".json")).sort();
+  } catch {
+    return { themes, errors };
+  }
+
+  for (const file of files) {
+    const key = path.basename(file, ".json");
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.readFile(path.join(dir, file), "utf8"));
+    } catch {
+      errors.push({ file, message: "not valid JSON" });
+      continue;
+    }
+    const parsed = parseThemeFile(raw, key);
+    if (typeof parsed === "string") errors.push({ file, message: parsed });
+    else themes.set(key, parsed);
+  }
+  return { themes, errors };
+}
+
+export async function writeThemeFile(filePath: string, theme: ThemeFile): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(theme, null, 2) + "\n", "utf8");
+}
@@ -0,0 +1,159 @@
+// Bundled word list for offline practice, grouped by length. Any two entries
+// with the same letters count as alternate anagrams of each other, so anagram
+// families (stale/least/slate…) are deliberately included.
+
+const WORDS_4 = `
+  able acid aged also area army away baby back ball band bank base bath bear beat bell belt best bird
+  blow blue boat body bone book born both bowl burn bush busy cake call calm came camp card care case
+  cash cast cell chat chip city clay club coal coat code cold come cook cool cope copy core corn cost
+  crew crop dark data date dawn dead deal dear debt deep deny desk dial diet dirt dish dose down draw
+  drew drop drum dual dust duty each earn ease east easy edge else even ever evil exit face fact fail
+  fair fall farm fast fate fear feed feel feet fell felt file fill film find fine fire firm fish five
+  flat flow food foot form fort four free from fuel full fund gain game gate gave gear gift girl give
+  glad goal gold golf gone good gray grew grow gulf hair half hall hand hang hard harm hate have head
+  hear heat held help here hero high hill hire hold hole holy home hope horn host hour huge hung hunt
+  hurt idea inch into iron item join jump jury just keen keep kept kick kind king knee knew know lack
+  lady laid lake land lane last late lead left less life lift like line link list live load loan lock
+  long look lose loss lost love luck made mail main make male many mark mass mate meal mean meat meet
+  menu mere mile milk mill mind mine miss mode mood moon more most move much must name near neck need
+  news next nice nine none nose note once only onto open oral over pace pack page paid pain pair palm
+  park part pass past path peak pick pile pink pipe plan play plot plus poem poet pole pool poor port
+  post pots pull pure push race rail rain rank rare rate read real rear rely rent rest rice rich ride
+  ring rise risk road rock role roll roof room root rose rule rush safe said sake sale salt same sand
+  save seat seed seek seem seen self sell send sent ship shop shot show shut sick side sign site size
+  skin slip slow snow soft soil sold sole some song soon sort soul spot star stay step stop such suit
+  sure take tale talk tall tame tank tape task teal team tell tend term test text than that them then
+  they thin this tile time tiny told tone took tool tops tour town tree trip true tune turn twin type
+  unit upon used user vary vast very vile view vote wage wait wake walk wall want ward warm wash wave
+  weak wear week well went west what when wide wife wild will wind wine wing wire wise wish wood word
+  wore work yard year zero zone
+`;
+
+const WORDS_5 = `
+  about above actor acute admit adopt adult after again agent agree ahead alarm album alert alike alive
+  allow alone along alter among angel anger angle angry apart apple apply arena argue arise array aside
+  asset audio avoid award aware badly baker basic beach began begin being below bench birth black blade
+  blame blind block blood board boost booth bound bowel brain brand bread break breed brief bring broad
+  broke brown build built buyer cable carry caret catch cater cause chain chair chart chase cheap check
+  chest chief child chose civil claim class clean clear click clock close coach coast could count court
+  cover craft crash crate cream crime cross crowd crown curve cycle daily dance dealt death debut delay
+  depth doing doubt dozen draft drama drawn dream dress drink drive drove dusty dying eager early earth
+  eight elbow elite empty enemy enjoy enter entry equal error event every exact exist extra faith false
+  fault fiber field fifth fifty fight final first fixed flash fleet floor fluid focus force forth forty
+  forum found frame frank fraud fresh front fruit fully funny giant given glass glean globe going grace
+  grade grand grant grass great green gross group grown guard guess guest guide happy hater heart heavy
+  hence horse hotel house human ideal image index inner input issue joint judge known label large laser
+  later laugh layer learn lease least leave legal lemon level light limit local logic loose lower lucky
+  lunch lying magic major maker march match maybe mayor meant media melon metal might minor minus mixed
+  model money month moral motor mount mouse mouth movie music never newly night noise north noted novel
+  nurse occur ocean offer often order other ought outer owner paint panel paper parse party peace pears
+  phase phone photo piece pilot pitch place plain plane plant plate point pound power press price pride
+  prime print prior prize proof proud prove queen quick quiet quite radio raise range rapid ratio reach
+  react ready realm reaps refer relax reply rider ridge right rival river rough round route royal rural
+  scale scene scope score sense serve seven shall shape share sharp sheet shelf shell shift shirt shock
+  shoot short shown sight since sixth sixty skill slate sleep slide small smart smile smoke solid solve
+  sorry sound south space spare speak spear speed spend spent split spoke sport staff stage stake stale
+  stand start state steal steam steel stick still stock stone stood store storm story strip stuck study
+  stuff style sugar suite super sweet table taken tales taste teach teals teeth thank theft their theme
+  there these thick thing think third those three threw throw tight tired title today topic total touch
+  tough tower trace track trade train treat trend trial tried truck truly trust truth twice under union
+  unity until upper upset urban usage usual valid value video virus visit vital voice waste watch water
+  wheel where which while white whole whose woman world worry worse worst worth would wound write wrong
+  wrote yield young youth
+`;
+
+const WORDS_6 = `
+  accept access across acting action active actual advice advise affect afford agency agenda almost
+  always amount animal annual answer anyone anyway appeal appear around arrive artist aspect assess
+  assist assume attack attend author autumn avenue barely battle beauty became become before behalf
+  behind belief belong better beyond border bottle bottom bought branch breath bridge bright broken
+  budget burden button camera cannot carbon career castle casual caught centre chance change charge
+  choice choose chosen church circle client closed closer coffee column combat coming common comply
+  copper corner costly county couple course create credit crisis custom damage danger dealer debate
+  decade decide defeat defend define degree demand depend deputy desert design desire detail detect
+  device differ dinner direct doctor dollar domain double driven driver during easily eating editor
+  effect effort eighth either eleven emerge empire employ enable ending energy engage engine enlist
+  enough ensure entire entity equity escape estate exceed except excess expand expect expert export
+  extend extent fabric facing factor failed fairly fallen family famous father fellow female figure
+  finger finish fiscal flight flying follow forced forest forget formal format former foster fought
+  fourth friend future garden gather genius global golden ground growth guilty handle happen hardly
+  health height hidden holder honest impact import income indeed injury inlets inside intend intent
+  invest island itself junior labour latest latter launch lawyer leader league leaves legacy length
+  lesson letter likely linked liquid listen little livers living losing lovely luxury mainly making
+  manage manner manual margin marine marked market master matter mature medium member memory mental
+  merely merger meteor method middle mining minute mirror mobile modern modest moment mother motion
+  moving museum mutual myself narrow nation native nature nearby nearly nobody normal notice notion
+  number object obtain office offset online option orange origin output packed palace parent partly
+  patent people period permit person phrase picked planet player please plenty pocket police policy
+  prefer pretty prince prison profit proper proven public pursue raised random rarely rather rating
+  reader really reason recall recent record reduce reform regard regime region relate relief remain
+  remote remove repair repeat report rescue resort result retail retain return reveal review reward
+  riding rising robust ruling safety salary sample saving saying scheme school screen search season
+  second secret sector secure seeing select seller senior series server settle severe should signal
+  silent silver simple simply single sister slight sliver smooth social solely sought source speech
+  spirit spoken spread spring square stable status steady stolen strain stream street stress strict
+  strike string strong struck studio submit sudden suffer summer summit supply surely survey switch
+  symbol system taking talent tamers target taught tenant tender tennis thanks theory thirty though
+  threat thrown ticket timber timing tinsel tissue toward travel treaty trying twelve twenty unable
+  unique united unless unlike update useful valley varied vendor versus victim vision visual volume
+  walker wealth weekly weight wholly window winner winter within wonder worker writer yellow
+`;
+
+const WORDS_7 = `
+  ability absence academy account accused achieve acquire address advance adverse advised against
+  airline airport alcohol alerted alleged already altered analyst ancient another anxiety anxious
+  anybody applied arrange arrival article assault assumed assured atoners attempt attract auction
+  average backing balance banking barrier battery bearing beating because bedroom believe beneath
+  benefit besides between billion binding brother brought burning cabinet calling capable capital
+  captain caption capture careful carrier caution ceiling central century certain chamber channel
+  chapter charity charter cheater checked chicken chronic circuit classic climate closely clothes
+  coastal collect college combine comfort command comment compact company compare compete complex
+  concept concern concert conduct confirm connect consent consist contact contain content contest
+  context control convert correct council counsel counter country crucial crystal culture current
+  cutting dealing decided decline default defence deficit deliver density deposit desktop despite
+  destroy develop devoted diamond digital discuss disease display dispute distant diverse divided
+  drawing driving dynamic earnest eastern economy edition elderly element engaged enhance enlarge
+  essence evening evident exactly examine example excited exclude exhibit expense explain explore
+  express extreme factory faculty failing failure fashion feature federal feeling fiction fifteen
+  filling finance finding fishing fitness foreign forever formula fortune forward founder freedom
+  further gallery gateway general genetic genuine gleaner granite greater hanging heading healthy
+  hearing heavily helpful helping herself highway himself history holding holiday housing however
+  hundred husband illegal illness imagine imaging improve include ingrate initial inquiry insight
+  install instant instead intense interim involve jointly journal journey justice justify keeping
+  kingdom kitchen knowing landing largely lasting leading learned leisure liberal liberty library
+  license limited listing logical loyalty machine manager married massive maximum meaning measure
+  medical meeting mention message million mineral minimal minimum missing mission mistake mixture
+  monitor monthly morning musical mystery natural nearest neither nervous network neutral notable
+  nothing nowhere nuclear nursing obvious offense officer ongoing opening operate opinion optical
+  organic outcome outdoor outlook outside overall package painter parking partial partner passage
+  passing passion passive patient pattern payable payment penalty pending pension percent perfect
+  perform perhaps pertain picking picture pioneer plastic pointed pointer popular portion poverty
+  precise predict premier premium prepare present prevent primary printer privacy private problem
+  proceed process produce product profile program project promise promote protect protein protest
+  provide publish purpose pushing qualify quality quarter radical railway readily reading reality
+  realize receipt receive recover reflect regular related release remains removal removed repaint
+  replace request require reserve resolve respect respond restore retired revenue reverse routine
+  running sainted satisfy science section segment senator serious serpent service serving session
+  setting seventh several shortly showing silence silicon similar sitting sixteen skilled smoking
+  society somehow someone speaker special species sponsor stained station storage strange stretch
+  student studied subject succeed success suggest summary support suppose supreme surface surgery
+  surplus survive suspect sustain teacher tearing telling tension theatre therapy thereby thought
+  through tonight totally touched towards traffic treason trouble turning typical uniform unknown
+  unusual upgrade utility variety various vehicle venture version veteran victory viewing village
+  violent virtual visible waiting walking wanting warning warrant wearing weather website wedding
+  weekend welcome welfare western whereas whether willing winning without witness working writing
+  written
+`;
+
+function parse(list: string): string[] {
+  return list.split(/\s+/).filter(Boolean);
+}
+
+export const PRACTICE_WORDS: Record<number, string[]> = {
+  4: parse(WORDS_4),
+  5: parse(WORDS_5),
+  6: parse(WORDS_6),
+  7: parse(WORDS_7),
+};
+
+export const PRACTICE_LENGTHS = Object.keys(PRACTICE_WORDS).map(Number);